@@ -1,6 +1,11 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import type * as protocol from "@agentclientprotocol/sdk";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
 import { AiderAcpAgent } from "./acp-agent.js";
+import { parseAiderQuestion } from "./question-parser.js";
+import { ScriptedAiderBackend, type AiderTranscript } from "./scripted-backend.js";
 
 // Mock the AiderProcessManager
 vi.mock("./aider-runner.js", () => {
@@ -9,6 +14,10 @@ vi.mock("./aider-runner.js", () => {
   class MockAiderProcessManager extends EventEmitter {
     private state: number = 0; // AiderState.STARTING
     public pendingConfirmation: string | null = null;
+    public answers: string[] = [];
+    public commands: string[] = [];
+    public hang = false;
+    public interrupted = 0;
     
     constructor(_workingDir: string, _model: string) {
       super();
@@ -27,14 +36,17 @@ vi.mock("./aider-runner.js", () => {
     }
     
     stop(): void {
-      this.emit("exit", "Process stopped");
+      this.emit("exit", "Process stopped", { code: null, signal: "SIGTERM", expected: true });
     }
     
-    interrupt(): void {
-      // Simulate interrupt
+    async interrupt(): Promise<{ stage: string; outcome: string }> {
+      this.interrupted += 1;
+      return { stage: "interrupt", outcome: "ready" };
     }
     
     sendCommand(command: string): void {
+      this.commands.push(command);
+      if (this.hang) return;
       // Simulate command processing
       setTimeout(() => {
         this.emit("data", `Processing: ${command}\n`);
@@ -43,6 +55,7 @@ vi.mock("./aider-runner.js", () => {
     }
     
     answerConfirmation(answer: string): void {
+      this.answers.push(answer);
       this.pendingConfirmation = null;
       this.state = 2; // AiderState.READY
     }
@@ -60,9 +73,17 @@ vi.mock("./aider-runner.js", () => {
       this.emit("error", error);
     }
     
-    simulateConfirmation(question: string): void {
+    simulateCrash(code: number): void {
+      this.emit("exit", `Aider process exited with code ${code}`, {
+        code,
+        signal: null,
+        expected: false,
+      });
+    }
+    
+    simulateConfirmation(question: { question: string }): void {
       this.state = 1; // AiderState.WAITING_FOR_CONFIRMATION
-      this.pendingConfirmation = question;
+      this.pendingConfirmation = question.question;
       this.emit("confirmation_required", question);
     }
   }
@@ -182,6 +203,25 @@ describe("AiderAcpAgent", () => {
       expect(response.models?.currentModelId).toBeDefined();
     });
 
+    it("shows the resolved Aider command line as a thought", async () => {
+      await agent.initialize({ protocolVersion: 1 } as protocol.InitializeRequest);
+
+      await agent.newSession({
+        cwd: "/test/dir",
+        mcpServers: [],
+        _meta: { aider: { args: ["--edit-format", "whole"], env: { SECRET_KEY: "hidden" } } },
+      } as unknown as protocol.NewSessionRequest);
+
+      const thoughts = mockClient.sessionUpdates
+        .filter((u) => (u.update as { sessionUpdate: string }).sessionUpdate === "agent_thought_chunk")
+        .map((u) => (u.update as { content: { text: string } }).content.text);
+      const launch = thoughts.find((text) => text.startsWith("Launching Aider"));
+      expect(launch).toContain("aider --model gemini/gemini-2.5-flash");
+      expect(launch).toContain("--edit-format whole");
+      expect(launch).toContain("SECRET_KEY");
+      expect(launch).not.toContain("hidden");
+    });
+
     it("uses requested model if available", async () => {
       await agent.initialize({ protocolVersion: 1 } as protocol.InitializeRequest);
       
@@ -218,6 +258,18 @@ describe("AiderAcpAgent", () => {
       expect(response.stopReason).toBe("end_turn");
     });
 
+    it("reports each change in the Aider command queue", async () => {
+      await agent.prompt({
+        sessionId,
+        prompt: [{ type: "text", text: "Hello world" }],
+      } as protocol.PromptRequest);
+
+      const depths = mockClient.sessionUpdates
+        .filter((u) => (u.update as { sessionUpdate: string }).sessionUpdate === "plan")
+        .map((u) => (u as { _meta?: { aiderQueueDepth?: number } })._meta?.aiderQueueDepth);
+      expect(depths).toEqual([0, 1, 0, 0]);
+    });
+
     it("validates slash commands", async () => {
       const response = await agent.prompt({
         sessionId,
@@ -342,6 +394,1049 @@ describe("AiderAcpAgent output classification", () => {
     // The mock simulates basic output, real formatting depends on parseAiderOutput
     expect(mockClient.sessionUpdates.length).toBeGreaterThan(0);
   });
+
+  it("shows each Aider warning once and keeps reply text that starts with 'Error'", async () => {
+    const client = createMockClient();
+    const transcript: AiderTranscript = {
+      events: [
+        { type: "stdout", data: "> " },
+        { type: "input" },
+        { type: "stdout", data: "Warning: gemini/gemini-2.5-flash does not support streaming.\n" },
+        { type: "stdout", data: "Error handling is missing here.\n> " },
+        { type: "input" },
+      ],
+    };
+    const scriptedAgent = new AiderAcpAgent(client, {
+      backendFactory: () => new ScriptedAiderBackend(transcript, { timeScale: 0 }),
+    });
+    await scriptedAgent.initialize({ protocolVersion: 1 } as protocol.InitializeRequest);
+    const { sessionId: scriptedSessionId } = await scriptedAgent.newSession({
+      cwd: "/test/dir",
+    } as protocol.NewSessionRequest);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    await scriptedAgent.prompt({
+      sessionId: scriptedSessionId,
+      prompt: [{ type: "text", text: "review it" }],
+    } as protocol.PromptRequest);
+
+    const text = client.sessionUpdates
+      .map((u) => u.update as { sessionUpdate: string; content?: { text: string } })
+      .filter((u) => u.sessionUpdate === "agent_message_chunk")
+      .map((u) => u.content?.text ?? "")
+      .join("");
+    expect(text.split("does not support streaming")).toHaveLength(2);
+    expect(text).toContain("Error handling is missing here.");
+    expect(text).not.toContain("❌");
+  });
+});
+
+describe("Aider questions", () => {
+  let agent: AiderAcpAgent;
+  let mockClient: ReturnType<typeof createMockClient>;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    mockClient = createMockClient();
+    agent = new AiderAcpAgent(mockClient);
+    await agent.initialize({ protocolVersion: 1 } as protocol.InitializeRequest);
+    const session = await agent.newSession({
+      cwd: "/test/dir",
+    } as protocol.NewSessionRequest);
+    sessionId = session.sessionId;
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  });
+
+  function getProcess(): {
+    answers: string[];
+    simulateConfirmation(question: unknown): void;
+  } {
+    const sessions = (agent as unknown as {
+      sessions: Map<string, { aiderProcess: unknown }>;
+    }).sessions;
+    return sessions.get(sessionId)?.aiderProcess as ReturnType<typeof getProcess>;
+  }
+
+  it("offers Aider's exact choices and writes the selected letter back", async () => {
+    const question = parseAiderQuestion(
+      "Add file to the chat? (Y)es/(N)o/(A)ll/(S)kip all/(D)on't ask again [Yes]: ",
+      ["astro.config.mjs"],
+    );
+    mockClient.requestPermissionResponse.optionKind = "reject_once";
+
+    getProcess().simulateConfirmation(question);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const request = mockClient.permissionRequests[0];
+    expect(request.options.map((option) => option.optionId)).toEqual(["y", "n", "a", "s", "d"]);
+    expect(request.options.map((option) => option.name)).toContain("Skip all");
+    expect(request.toolCall.title).toBe("Add file to the chat? astro.config.mjs");
+    expect(getProcess().answers).toEqual(["n"]);
+  });
+
+  it("answers no when the permission request fails", async () => {
+    const question = parseAiderQuestion("Create new file? (Y)es/(N)o [Yes]: ");
+    mockClient.requestPermission = async () => {
+      throw new Error("client disconnected");
+    };
+
+    getProcess().simulateConfirmation(question);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(getProcess().answers).toEqual(["n"]);
+  });
+
+  it("prefers the nested SDK outcome when choosing the answer", async () => {
+    const question = parseAiderQuestion("Create new file? (Y)es/(N)o [Yes]: ");
+    const response = mockClient.requestPermissionResponse as unknown as Record<string, unknown>;
+    response.outcome = { outcome: "selected", optionId: "y" };
+
+    getProcess().simulateConfirmation(question);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(getProcess().answers).toEqual(["y"]);
+  });
+});
+
+describe("Aider process supervision", () => {
+  type MockProcess = { commands: string[]; simulateCrash(code: number): void; stop(): void };
+  type MockSession = { aiderProcess?: MockProcess; files: string[]; currentMode?: string };
+
+  async function createSession(maxRestarts: number): Promise<{
+    agent: AiderAcpAgent;
+    mockClient: ReturnType<typeof createMockClient>;
+    sessionId: string;
+    getSession: () => MockSession;
+  }> {
+    const mockClient = createMockClient();
+    const agent = new AiderAcpAgent(mockClient, {
+      restartPolicy: { initialDelayMs: 0, maxRestarts },
+    });
+    await agent.initialize({ protocolVersion: 1 } as protocol.InitializeRequest);
+    const { sessionId } = await agent.newSession({ cwd: "/test/dir" } as protocol.NewSessionRequest);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    const sessions = (agent as unknown as { sessions: Map<string, MockSession> }).sessions;
+    return { agent, mockClient, sessionId, getSession: () => sessions.get(sessionId)! };
+  }
+
+  function messages(mockClient: ReturnType<typeof createMockClient>): string[] {
+    return mockClient.sessionUpdates
+      .filter((u) => (u.update as { sessionUpdate: string }).sessionUpdate === "agent_message_chunk")
+      .map((u) => (u.update as { content: { text: string } }).content.text);
+  }
+
+  it("restarts a crashed process and replays files and mode", async () => {
+    const { agent, mockClient, sessionId, getSession } = await createSession(3);
+    getSession().files = ["/test/dir/a.ts"];
+    await agent.setMode({ sessionId, modeId: "architect" });
+
+    const crashed = getSession().aiderProcess!;
+    expect(crashed.commands).toEqual(["/architect"]);
+    crashed.simulateCrash(1);
+    await vi.waitFor(() => {
+      expect(getSession().aiderProcess!.commands).toEqual(["/add /test/dir/a.ts", "/architect"]);
+    });
+
+    const restarted = getSession().aiderProcess!;
+    expect(restarted).not.toBe(crashed);
+    expect(messages(mockClient).some((text) => text.includes("Restarting"))).toBe(true);
+
+    const response = await agent.prompt({
+      sessionId,
+      prompt: [{ type: "text", text: "Hello" }],
+    } as protocol.PromptRequest);
+    expect(response.stopReason).toBe("end_turn");
+  });
+
+  it("switches the running process back to code mode", async () => {
+    const { agent, sessionId, getSession } = await createSession(3);
+    await agent.setMode({ sessionId, modeId: "ask" });
+    await agent.setMode({ sessionId, modeId: "ask" });
+    await agent.setMode({ sessionId, modeId: "code" });
+
+    expect(getSession().aiderProcess!.commands).toEqual(["/ask", "/code"]);
+  });
+
+  it("gives up after repeated crashes and forgets the session", async () => {
+    const { agent, mockClient, sessionId, getSession } = await createSession(1);
+
+    getSession().aiderProcess!.simulateCrash(1);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    getSession().aiderProcess!.simulateCrash(1);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(messages(mockClient).some((text) => text.includes("will not be restarted"))).toBe(true);
+    const sessions = (agent as unknown as { sessions: Map<string, MockSession> }).sessions;
+    expect(sessions.has(sessionId)).toBe(false);
+  });
+
+  it("does not restart a process that was stopped on purpose", async () => {
+    const { getSession } = await createSession(3);
+
+    getSession().aiderProcess!.stop();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(getSession().aiderProcess).toBeUndefined();
+  });
+});
+
+describe("Turn watchdog", () => {
+  type HangingProcess = { hang: boolean; interrupted: number; emit(event: string, data: string): void };
+
+  async function createHangingSession(): Promise<{
+    agent: AiderAcpAgent;
+    mockClient: ReturnType<typeof createMockClient>;
+    sessionId: string;
+    process: HangingProcess;
+  }> {
+    const mockClient = createMockClient();
+    const agent = new AiderAcpAgent(mockClient, {
+      turnTimeouts: { turnMs: 0, commandMs: 0, idleMs: 20 },
+    });
+    await agent.initialize({ protocolVersion: 1 } as protocol.InitializeRequest);
+    const { sessionId } = await agent.newSession({ cwd: "/test/dir" } as protocol.NewSessionRequest);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    const sessions = (agent as unknown as {
+      sessions: Map<string, { aiderProcess: HangingProcess }>;
+    }).sessions;
+    const process = sessions.get(sessionId)!.aiderProcess;
+    process.hang = true;
+    return { agent, mockClient, sessionId, process };
+  }
+
+  it("asks the client what to do when Aider goes quiet and interrupts on request", async () => {
+    const { agent, mockClient, sessionId, process } = await createHangingSession();
+    mockClient.requestPermissionResponse.optionKind = "reject_once";
+
+    const response = await agent.prompt({
+      sessionId,
+      prompt: [{ type: "text", text: "Hello" }],
+    } as protocol.PromptRequest);
+
+    expect(response.stopReason).toBe("cancelled");
+    expect(process.interrupted).toBe(1);
+    const request = mockClient.permissionRequests[0];
+    expect(request.options.map((option) => option.optionId)).toEqual(["wait", "interrupt", "kill"]);
+    expect(request.toolCall.title).toContain("printed nothing");
+  });
+
+  it("setMode after a finished prompt does not trigger the watchdog", async () => {
+    const mockClient = createMockClient();
+    const transcript: AiderTranscript = {
+      events: [
+        { type: "stdout", data: "> " },
+        { type: "input" },
+        { type: "stdout", data: "Hi!\nTokens: 1.2k sent, 3 received.\n> ", delayMs: 20 },
+        { type: "input" },
+        { type: "stdout", data: "ask> ", delayMs: 20 },
+        { type: "input" },
+      ],
+    };
+    const agent = new AiderAcpAgent(mockClient, {
+      backendFactory: () => new ScriptedAiderBackend(transcript, { turnFraming: { settleMs: 10 } }),
+      turnTimeouts: { turnMs: 200, commandMs: 0, idleMs: 0 },
+    });
+    await agent.initialize({ protocolVersion: 1 } as protocol.InitializeRequest);
+    const { sessionId } = await agent.newSession({ cwd: "/test/dir" } as protocol.NewSessionRequest);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    await agent.prompt({ sessionId, prompt: [{ type: "text", text: "Hello" }] } as protocol.PromptRequest);
+    await new Promise((resolve) => setTimeout(resolve, 400));
+    await agent.setMode({ sessionId, modeId: "ask" });
+
+    expect(mockClient.permissionRequests).toEqual([]);
+  });
+
+  it("ends the turn with an error when the client cannot be asked", async () => {
+    const { agent, mockClient, sessionId, process } = await createHangingSession();
+    mockClient.requestPermission = async () => {
+      throw new Error("Client disconnected");
+    };
+
+    const response = await agent.prompt({
+      sessionId,
+      prompt: [{ type: "text", text: "Hello" }],
+    } as protocol.PromptRequest);
+
+    expect(response.stopReason).toBe("cancelled");
+    expect(process.interrupted).toBe(1);
+    const text = mockClient.sessionUpdates
+      .filter((u) => (u.update as { sessionUpdate: string }).sessionUpdate === "agent_message_chunk")
+      .map((u) => (u.update as { content: { text: string } }).content.text)
+      .join("");
+    expect(text).toContain("Could not ask whether to keep waiting:** Client disconnected");
+  });
+
+  it("keeps waiting when the client chooses to", async () => {
+    const { agent, mockClient, sessionId, process } = await createHangingSession();
+
+    const pending = agent.prompt({
+      sessionId,
+      prompt: [{ type: "text", text: "Hello" }],
+    } as protocol.PromptRequest);
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(mockClient.permissionRequests.length).toBeGreaterThan(0);
+    process.emit("turn_completed", "done");
+
+    const response = await pending;
+    expect(response.stopReason).toBe("end_turn");
+    expect(process.interrupted).toBe(0);
+  });
+});
+
+describe("AiderAcpAgent with a scripted backend", () => {
+  const transcript: AiderTranscript = {
+    events: [
+      { type: "stdout", data: "Aider v0.86.1\nMain model: gpt-4o with diff edit format\n", delayMs: 2 },
+      { type: "stdout", data: "> " },
+      { type: "input", data: "Explain the project" },
+      { type: "stdout", data: "> Explain the project\n\n", delayMs: 2 },
+      { type: "stdout", data: "This project bridges Aider ", delayMs: 2 },
+      { type: "stdout", data: "and ACP.\n\n> ", delayMs: 2 },
+      { type: "input" },
+    ],
+  };
+
+  it("runs a prompt end to end without a real Aider process", async () => {
+    const mockClient = createMockClient();
+    const backends: ScriptedAiderBackend[] = [];
+    const agent = new AiderAcpAgent(mockClient, {
+      backendFactory: () => {
+        const backend = new ScriptedAiderBackend(transcript, { timeScale: 0 });
+        backends.push(backend);
+        return backend;
+      },
+    });
+    await agent.initialize({ protocolVersion: 1 } as protocol.InitializeRequest);
+    const { sessionId } = await agent.newSession({ cwd: "/test/dir" } as protocol.NewSessionRequest);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const response = await agent.prompt({
+      sessionId,
+      prompt: [{ type: "text", text: "Explain the project" }],
+    } as protocol.PromptRequest);
+
+    expect(response.stopReason).toBe("end_turn");
+    expect(backends[0].inputs).toEqual(["Explain the project"]);
+    const text = mockClient.sessionUpdates
+      .filter((u) => (u.update as { sessionUpdate: string }).sessionUpdate === "agent_message_chunk")
+      .map((u) => (u.update as { content: { text: string } }).content.text)
+      .join("");
+    expect(text).toContain("This project bridges Aider");
+    expect(text).toContain("**Aider**: v0.86.1");
+  });
+
+  it("sends a multi-line prompt to Aider as a single message", async () => {
+    const backends: ScriptedAiderBackend[] = [];
+    const agent = new AiderAcpAgent(createMockClient(), {
+      backendFactory: () => {
+        const backend = new ScriptedAiderBackend(transcript, { timeScale: 0 });
+        backends.push(backend);
+        return backend;
+      },
+    });
+    await agent.initialize({ protocolVersion: 1 } as protocol.InitializeRequest);
+    const { sessionId } = await agent.newSession({ cwd: "/test/dir" } as protocol.NewSessionRequest);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const response = await agent.prompt({
+      sessionId,
+      prompt: [
+        { type: "text", text: "Why does this fail?\n" },
+        { type: "text", text: "```\nTypeError: x is undefined\n    at main (src/index.ts:3)\n```" },
+      ],
+    } as protocol.PromptRequest);
+
+    expect(response.stopReason).toBe("end_turn");
+    expect(backends[0].inputs).toEqual([
+      "{\nWhy does this fail?\n```\nTypeError: x is undefined\n    at main (src/index.ts:3)\n```\n}",
+    ]);
+    expect(backends[0].remainingEvents()).toBe(1);
+  });
+
+  it("shows every SEARCH/REPLACE block of a file in one edit tool call", async () => {
+    const mockClient = createMockClient();
+    const editTranscript: AiderTranscript = {
+      events: [
+        { type: "stdout", data: "> " },
+        { type: "input" },
+        // Split mid-block the way streamed stdout arrives.
+        { type: "stdout", data: "app.py\n```\n<<<<<<< SEARCH\na = 1\n=======\na = 2\n>>>>>>> REP" },
+        {
+          type: "stdout",
+          data: "LACE\n<<<<<<< SEARCH\nb = 1\n=======\nb = 2\n>>>>>>> REPLACE\n```\n\nApplied edit to app.py\n> ",
+        },
+        { type: "input" },
+      ],
+    };
+    const agent = new AiderAcpAgent(mockClient, {
+      backendFactory: () => new ScriptedAiderBackend(editTranscript, { timeScale: 0 }),
+    });
+    await agent.initialize({ protocolVersion: 1 } as protocol.InitializeRequest);
+    const { sessionId } = await agent.newSession({ cwd: "/test/dir" } as protocol.NewSessionRequest);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    await agent.prompt({
+      sessionId,
+      prompt: [{ type: "text", text: "Bump both values" }],
+    } as protocol.PromptRequest);
+
+    const edits = mockClient.sessionUpdates
+      .map((u) => u.update as { sessionUpdate: string; toolCallId?: string; status?: string; content?: unknown[] })
+      .filter((u) => u.sessionUpdate === "tool_call_update" && u.toolCallId?.startsWith("edit_"));
+    expect(new Set(edits.map((edit) => edit.toolCallId)).size).toBe(1);
+    // The file cannot be read, so the parsed blocks stay as the final content.
+    expect(edits[edits.length - 1].status).toBe("completed");
+    expect(edits[edits.length - 1].content).toEqual([
+      { type: "diff", path: "/test/dir/app.py", oldText: "a = 1", newText: "a = 2" },
+      { type: "diff", path: "/test/dir/app.py", oldText: "b = 1", newText: "b = 2" },
+    ]);
+  });
+
+  it("shows the repo scan as a tool call that updates in place", async () => {
+    const mockClient = createMockClient();
+    const scanTranscript: AiderTranscript = {
+      events: [
+        { type: "stderr", data: "\rScanning repo:   0%|          | 0/4 [00:00<?, ?it/s]" },
+        { type: "stderr", data: "\rScanning repo:  50%|█████     | 2/4 [00:01<00:01]" },
+        { type: "stderr", data: "\rScanning repo:  50%|█████     | 2/4 [00:01<00:01]" },
+        { type: "stderr", data: "\rScanning repo: 100%|██████████| 4/4 [00:02<00:00]\n" },
+        { type: "stdout", data: "> " },
+        { type: "input" },
+      ],
+    };
+    const agent = new AiderAcpAgent(mockClient, {
+      backendFactory: () => new ScriptedAiderBackend(scanTranscript, { timeScale: 0 }),
+    });
+    await agent.initialize({ protocolVersion: 1 } as protocol.InitializeRequest);
+    await agent.newSession({ cwd: "/test/dir" } as protocol.NewSessionRequest);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    const updates = mockClient.sessionUpdates.map(
+      (u) =>
+        u.update as {
+          sessionUpdate: string;
+          toolCallId?: string;
+          title?: string;
+          status?: string;
+          content?: Array<{ content: { text: string } }>;
+        },
+    );
+    const scanCalls = updates.filter((u) => u.toolCallId?.startsWith("scan_"));
+    expect(scanCalls[0]).toMatchObject({ sessionUpdate: "tool_call", title: "Scanning repo" });
+    expect(scanCalls.slice(1).map((u) => [u.status, u.content?.[0].content.text])).toEqual([
+      ["in_progress", "0/4 files (0%)"],
+      ["in_progress", "2/4 files (50%)"],
+      ["completed", "4/4 files (100%)"],
+    ]);
+    const messages = updates
+      .filter((u) => u.sessionUpdate === "agent_message_chunk")
+      .map((u) => JSON.stringify(u));
+    expect(messages.join("")).not.toContain("Scanning repo");
+  });
+
+  it("keeps token and cost totals and reports them at the end of each prompt", async () => {
+    const mockClient = createMockClient();
+    const usageTranscript: AiderTranscript = {
+      events: [
+        { type: "stdout", data: "> " },
+        { type: "input" },
+        { type: "stdout", data: "Done.\n\nTokens: 2.5k sent, 105 received. Cost: $0.01 message, $0.01 session.\n> " },
+        { type: "input" },
+        { type: "stdout", data: "Again.\n\nTokens: 3.0k sent, 200 received. Cost: $0.02 message, $0.03 session.\n> " },
+        { type: "input" },
+      ],
+    };
+    const agent = new AiderAcpAgent(mockClient, {
+      backendFactory: () => new ScriptedAiderBackend(usageTranscript, { timeScale: 0 }),
+    });
+    await agent.initialize({ protocolVersion: 1 } as protocol.InitializeRequest);
+    const { sessionId } = await agent.newSession({ cwd: "/test/dir" } as protocol.NewSessionRequest);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    await agent.prompt({ sessionId, prompt: [{ type: "text", text: "one" }] } as protocol.PromptRequest);
+    const response = await agent.prompt({
+      sessionId,
+      prompt: [{ type: "text", text: "two" }],
+    } as protocol.PromptRequest);
+
+    const usage = (response._meta as { aiderUsage: { turn: unknown; session: { sent: number; cost: number } } })
+      .aiderUsage;
+    expect(usage.turn).toMatchObject({ sent: 3_000, received: 200, reports: 1 });
+    expect(usage.session.sent).toBe(5_500);
+    expect(usage.session.cost).toBeCloseTo(0.03);
+
+    const text = mockClient.sessionUpdates
+      .filter((u) => (u.update as { sessionUpdate: string }).sessionUpdate === "agent_message_chunk")
+      .map((u) => (u.update as { content: { text: string } }).content.text)
+      .join("");
+    expect(text).toContain("📊 3.0k sent, 200 received · $0.0200 (session $0.0300)");
+    expect(text).not.toContain("**Tokens**");
+  });
+
+  it("explains a provider failure and ends the turn with a matching stop reason", async () => {
+    const mockClient = createMockClient();
+    const errorTranscript: AiderTranscript = {
+      events: [
+        { type: "stdout", data: "> " },
+        { type: "input" },
+        {
+          type: "stdout",
+          data: [
+            "litellm.RateLimitError: AnthropicException - rate_limit_error. Please try again in 30s.",
+            "The API provider has rate limited you. Try again later or check your quotas.",
+            "> ",
+          ].join("\n"),
+        },
+        { type: "input" },
+      ],
+    };
+    const agent = new AiderAcpAgent(mockClient, {
+      backendFactory: () => new ScriptedAiderBackend(errorTranscript, { timeScale: 0 }),
+    });
+    await agent.initialize({ protocolVersion: 1 } as protocol.InitializeRequest);
+    const { sessionId } = await agent.newSession({ cwd: "/test/dir" } as protocol.NewSessionRequest);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const response = await agent.prompt({
+      sessionId,
+      prompt: [{ type: "text", text: "hello" }],
+    } as protocol.PromptRequest);
+
+    expect(response.stopReason).toBe("end_turn");
+    expect((response._meta as { aiderError: unknown }).aiderError).toMatchObject({
+      kind: "rate_limit",
+      retryAfterSeconds: 30,
+    });
+    const messages = mockClient.sessionUpdates
+      .filter((u) => (u.update as { sessionUpdate: string }).sessionUpdate === "agent_message_chunk")
+      .map((u) => (u.update as { content: { text: string } }).content.text);
+    expect(messages.filter((text) => text.includes("rate limiting requests"))).toHaveLength(1);
+    expect(messages.join("")).toContain("💡 Wait before sending the next prompt");
+    expect(messages.join("")).not.toContain("**Error:**");
+  });
+
+  it("shows an architect proposal as thoughts and asks before the editor runs", async () => {
+    const mockClient = createMockClient();
+    mockClient.requestPermission = async (request) => {
+      mockClient.permissionRequests.push(request);
+      return { outcome: { outcome: "selected", optionId: "n" } } as protocol.RequestPermissionResponse;
+    };
+    const architectTranscript: AiderTranscript = {
+      events: [
+        { type: "stdout", data: "architect> " },
+        { type: "input" },
+        { type: "stdout", data: "Rename the function:\n\napp.py\n```\ndef greet():\n    pass\n```\n" },
+        { type: "stdout", data: "Edit the files? (Y)es/(N)o [Yes]: " },
+        { type: "input" },
+        { type: "stdout", data: "\narchitect> " },
+        { type: "input" },
+      ],
+    };
+    const agent = new AiderAcpAgent(mockClient, {
+      backendFactory: () => new ScriptedAiderBackend(architectTranscript, { timeScale: 0 }),
+    });
+    await agent.initialize({ protocolVersion: 1 } as protocol.InitializeRequest);
+    const { sessionId } = await agent.newSession({ cwd: "/test/dir" } as protocol.NewSessionRequest);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    await agent.prompt({ sessionId, prompt: [{ type: "text", text: "rename greet" }] } as protocol.PromptRequest);
+
+    const toolCall = mockClient.permissionRequests[0].toolCall as {
+      title: string;
+      content: Array<{ content: { text: string } }>;
+    };
+    expect(toolCall.title).toBe("Edit the files?");
+    expect(toolCall.content[0].content.text).toBe("Rename the function:\n\napp.py\n```\ndef greet():\n    pass\n```");
+
+    const updates = mockClient.sessionUpdates.map(
+      (u) => u.update as { sessionUpdate: string; content?: { text: string } },
+    );
+    expect(updates.some((u) => u.sessionUpdate === "tool_call")).toBe(false);
+    expect(
+      updates.some((u) => u.sessionUpdate === "agent_thought_chunk" && u.content?.text.includes("def greet()")),
+    ).toBe(true);
+    expect(
+      updates.some((u) => u.sessionUpdate === "agent_message_chunk" && u.content?.text.includes("Rename the function")),
+    ).toBe(false);
+  });
+
+  it("asks before running a suggested command and marks a declined one as failed", async () => {
+    const mockClient = createMockClient();
+    mockClient.requestPermission = async (request) => {
+      mockClient.permissionRequests.push(request);
+      return { outcome: { outcome: "selected", optionId: "n" } } as protocol.RequestPermissionResponse;
+    };
+    const backends: ScriptedAiderBackend[] = [];
+    const shellTranscript: AiderTranscript = {
+      events: [
+        { type: "stdout", data: "> " },
+        { type: "input" },
+        { type: "stdout", data: "Run the tests:\n\n```bash\nnpm test\n```\n\n" },
+        { type: "stdout", data: "Tokens: 2.1k sent, 45 received.\n" },
+        { type: "stdout", data: "\nnpm test\n" },
+        { type: "stdout", data: "Run shell command? (Y)es/(N)o/(D)on't ask again [Yes]: " },
+        { type: "input" },
+        { type: "stdout", data: "\n> " },
+        { type: "input" },
+      ],
+    };
+    const agent = new AiderAcpAgent(mockClient, {
+      backendFactory: () => {
+        const backend = new ScriptedAiderBackend(shellTranscript, { timeScale: 0 });
+        backends.push(backend);
+        return backend;
+      },
+    });
+    await agent.initialize({ protocolVersion: 1 } as protocol.InitializeRequest);
+    const { sessionId } = await agent.newSession({ cwd: "/test/dir" } as protocol.NewSessionRequest);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    await agent.prompt({ sessionId, prompt: [{ type: "text", text: "how do I test?" }] } as protocol.PromptRequest);
+
+    const updates = mockClient.sessionUpdates.map(
+      (u) => u.update as { sessionUpdate: string; toolCallId?: string; kind?: string; status?: string },
+    );
+    const toolCall = updates.find((u) => u.sessionUpdate === "tool_call");
+    expect(toolCall).toMatchObject({ kind: "execute", status: "pending" });
+    expect(mockClient.permissionRequests[0].toolCall).toMatchObject({
+      toolCallId: toolCall?.toolCallId,
+      kind: "execute",
+      title: "Run shell command? npm test",
+    });
+    expect(updates.filter((u) => u.toolCallId === toolCall?.toolCallId).pop()?.status).toBe("failed");
+    expect(backends[0].inputs).toEqual(["how do I test?", "n"]);
+
+    const text = mockClient.sessionUpdates
+      .map((u) => u.update as { sessionUpdate: string; content?: { text: string } })
+      .filter((u) => u.sessionUpdate === "agent_message_chunk")
+      .map((u) => u.content?.text)
+      .join("");
+    expect(text).toContain("Run the tests:");
+    expect(text).not.toContain("npm test");
+  });
+
+  it("runs an approved command itself and passes its exit code and output to Aider in the same turn", async () => {
+    const mockClient = createMockClient();
+    const backends: ScriptedAiderBackend[] = [];
+    const shellTranscript: AiderTranscript = {
+      events: [
+        { type: "stdout", data: "> " },
+        { type: "input" },
+        { type: "stdout", data: "Run the tests:\n\n```bash\nnpm test\n```\n\n" },
+        { type: "stdout", data: "\nnpm test\n" },
+        { type: "stdout", data: "Run shell command? (Y)es/(N)o/(D)on't ask again [Yes]: " },
+        { type: "input" },
+        { type: "stdout", data: "\n> " },
+        { type: "input" },
+        { type: "stdout", data: "The test expects 4.\nTokens: 2.5k sent, 12 received.\n> " },
+        { type: "input" },
+      ],
+    };
+    const ran: Array<{ command: string; cwd: string }> = [];
+    const agent = new AiderAcpAgent(mockClient, {
+      backendFactory: () => {
+        const backend = new ScriptedAiderBackend(shellTranscript, { timeScale: 0 });
+        backends.push(backend);
+        return backend;
+      },
+      shellRunner: async (command, { cwd, onOutput }) => {
+        ran.push({ command, cwd });
+        onOutput("Running npm test\n1 failed\n");
+        return 2;
+      },
+    });
+    await agent.initialize({ protocolVersion: 1 } as protocol.InitializeRequest);
+    const { sessionId } = await agent.newSession({ cwd: "/test/dir" } as protocol.NewSessionRequest);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    await agent.prompt({ sessionId, prompt: [{ type: "text", text: "how do I test?" }] } as protocol.PromptRequest);
+
+    expect(ran).toEqual([{ command: "npm test", cwd: "/test/dir" }]);
+    const updates = mockClient.sessionUpdates.map(
+      (u) => u.update as { sessionUpdate: string; toolCallId?: string; status?: string; rawOutput?: unknown },
+    );
+    const toolCallId = updates.find((u) => u.sessionUpdate === "tool_call")?.toolCallId;
+    expect(updates.filter((u) => u.toolCallId === toolCallId).pop()).toMatchObject({
+      status: "failed",
+      rawOutput: { output: "Running npm test\n1 failed", exitCode: 2 },
+    });
+    // Aider is told not to run the command the agent already ran, then gets its output.
+    expect(backends[0].inputs).toEqual([
+      "how do I test?",
+      "n",
+      "{\nOutput from npm test\nRunning npm test\n1 failed\nExit code: 2\n\n}",
+    ]);
+    const text = mockClient.sessionUpdates
+      .map((u) => u.update as { sessionUpdate: string; content?: { text: string } })
+      .filter((u) => u.sessionUpdate === "agent_message_chunk")
+      .map((u) => u.content?.text)
+      .join("");
+    expect(text).toContain("The test expects 4.");
+  });
+
+  it("stops a running command when the agent shuts down", async () => {
+    const mockClient = createMockClient();
+    const shellTranscript: AiderTranscript = {
+      events: [
+        { type: "stdout", data: "> " },
+        { type: "input" },
+        { type: "stdout", data: "```bash\nnpm run dev\n```\n\n" },
+        { type: "stdout", data: "\nnpm run dev\n" },
+        { type: "stdout", data: "Run shell command? (Y)es/(N)o/(D)on't ask again [Yes]: " },
+        { type: "input" },
+      ],
+    };
+    let started: () => void = () => {};
+    const running = new Promise<void>((resolve) => {
+      started = resolve;
+    });
+    let signal: AbortSignal | undefined;
+    const agent = new AiderAcpAgent(mockClient, {
+      backendFactory: () => new ScriptedAiderBackend(shellTranscript, { timeScale: 0 }),
+      shellRunner: (_command, options) => {
+        signal = options.signal;
+        started();
+        return new Promise((resolve) => options.signal.addEventListener("abort", () => resolve(143)));
+      },
+    });
+    await agent.initialize({ protocolVersion: 1 } as protocol.InitializeRequest);
+    const { sessionId } = await agent.newSession({ cwd: "/test/dir" } as protocol.NewSessionRequest);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    void agent.prompt({ sessionId, prompt: [{ type: "text", text: "start it" }] } as protocol.PromptRequest);
+    await running;
+    await agent.shutdown(100);
+
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it("marks an edit whose SEARCH block did not match as failed", async () => {
+    const mockClient = createMockClient();
+    const editTranscript: AiderTranscript = {
+      events: [
+        { type: "stdout", data: "> " },
+        { type: "input" },
+        {
+          type: "stdout",
+          data: [
+            "app.py",
+            "```",
+            "<<<<<<< SEARCH",
+            "a = 3",
+            "=======",
+            "a = 4",
+            ">>>>>>> REPLACE",
+            "```",
+            "",
+            "The LLM did not conform to the edit format.",
+            "https://aider.chat/docs/troubleshooting/edit-errors.html",
+            "",
+            "# 1 SEARCH/REPLACE block failed to match!",
+            "",
+            "## SearchReplaceNoExactMatch: This SEARCH block failed to exactly match lines in app.py",
+            "<<<<<<< SEARCH",
+            "a = 3",
+            "=======",
+            "a = 4",
+            ">>>>>>> REPLACE",
+            "",
+            "> ",
+          ].join("\n"),
+        },
+        { type: "input" },
+      ],
+    };
+    const agent = new AiderAcpAgent(mockClient, {
+      backendFactory: () => new ScriptedAiderBackend(editTranscript, { timeScale: 0 }),
+    });
+    await agent.initialize({ protocolVersion: 1 } as protocol.InitializeRequest);
+    const { sessionId } = await agent.newSession({ cwd: "/test/dir" } as protocol.NewSessionRequest);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    await agent.prompt({
+      sessionId,
+      prompt: [{ type: "text", text: "Set a to 4" }],
+    } as protocol.PromptRequest);
+
+    const edits = mockClient.sessionUpdates
+      .map((u) => u.update as { sessionUpdate: string; toolCallId?: string; status?: string; content?: unknown[] })
+      .filter((u) => u.sessionUpdate === "tool_call_update" && u.toolCallId?.startsWith("edit_"));
+    const final = edits[edits.length - 1];
+    expect(final.status).toBe("failed");
+    expect(final.content?.[1]).toEqual({
+      type: "content",
+      content: {
+        type: "text",
+        text:
+          "❌ SearchReplaceNoExactMatch: This SEARCH block failed to exactly match lines in app.py" +
+          "\n\nUnmatched SEARCH text:\n```\na = 3\n```",
+      },
+    });
+  });
+
+  it("reports an edit as a whole-file diff once Aider has written the file", async () => {
+    const workingDir = fs.mkdtempSync(path.join(os.tmpdir(), "aider-acp-edit-"));
+    const filePath = path.join(workingDir, "app.py");
+    fs.writeFileSync(filePath, "import os\n\na = 1\n");
+
+    const mockClient = createMockClient();
+    const editTranscript: AiderTranscript = {
+      events: [
+        { type: "stdout", data: "> " },
+        { type: "input" },
+        { type: "stdout", data: "app.py\n```\n<<<<<<< SEARCH\na = 1\n=======\na = 2\n>>>>>>> REPLACE\n```\n" },
+        // Aider writes the file after the response; the prompt follows.
+        { type: "stdout", data: "Applied edit to app.py\n> ", delayMs: 50 },
+        { type: "input" },
+      ],
+    };
+    const agent = new AiderAcpAgent(mockClient, {
+      backendFactory: () => new ScriptedAiderBackend(editTranscript),
+    });
+    await agent.initialize({ protocolVersion: 1 } as protocol.InitializeRequest);
+    const { sessionId } = await agent.newSession({ cwd: workingDir } as protocol.NewSessionRequest);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const prompt = agent.prompt({
+      sessionId,
+      prompt: [{ type: "text", text: "Set a to 2" }],
+    } as protocol.PromptRequest);
+    const editStarted = (): boolean =>
+      mockClient.sessionUpdates.some(
+        (u) => (u.update as { sessionUpdate: string }).sessionUpdate === "tool_call",
+      );
+    while (!editStarted()) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    fs.writeFileSync(filePath, "import os\n\na = 2\n");
+    await prompt;
+
+    const edits = mockClient.sessionUpdates
+      .map((u) => u.update as { sessionUpdate: string; toolCallId?: string; status?: string })
+      .filter((u) => u.sessionUpdate === "tool_call_update" && u.toolCallId?.startsWith("edit_"));
+    expect(edits[edits.length - 1]).toMatchObject({
+      status: "completed",
+      content: [{ type: "diff", path: filePath, oldText: "import os\n\na = 1\n", newText: "import os\n\na = 2\n" }],
+      locations: [{ path: filePath, line: 3 }],
+    });
+    fs.rmSync(workingDir, { recursive: true, force: true });
+  });
+
+  it("hands a pre-started process from the pool to the next session", async () => {
+    const mockClient = createMockClient();
+    const backends: ScriptedAiderBackend[] = [];
+    const agent = new AiderAcpAgent(mockClient, {
+      processPool: { size: 1 },
+      backendFactory: () => {
+        const backend = new ScriptedAiderBackend(transcript, { timeScale: 0 });
+        backends.push(backend);
+        return backend;
+      },
+    });
+    await agent.initialize({ protocolVersion: 1 } as protocol.InitializeRequest);
+    await agent.newSession({ cwd: "/test/dir" } as protocol.NewSessionRequest);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(backends).toHaveLength(2);
+
+    const { sessionId } = await agent.newSession({ cwd: "/test/dir" } as protocol.NewSessionRequest);
+    const thoughts = mockClient.sessionUpdates
+      .filter((u) => u.sessionId === sessionId)
+      .map((u) => (u.update as { content?: { text?: string } }).content?.text ?? "");
+    expect(thoughts).toContain("Using a pre-started Aider process from the pool.");
+
+    const response = await agent.prompt({
+      sessionId,
+      prompt: [{ type: "text", text: "Explain the project" }],
+    } as protocol.PromptRequest);
+    expect(response.stopReason).toBe("end_turn");
+    expect(backends[1].inputs).toEqual(["Explain the project"]);
+    await agent.shutdown(100);
+  });
+
+  it("escalates a cancel that Aider ignores and restarts the killed process", async () => {
+    const mockClient = createMockClient();
+    const backends: ScriptedAiderBackend[] = [];
+    const agent = new AiderAcpAgent(mockClient, {
+      interruptPolicy: { promptMs: 150, exitMs: 20 },
+      backendFactory: (options) => {
+        const backend = new ScriptedAiderBackend(
+          {
+            events: [
+              { type: "stdout", data: "> " },
+              { type: "input" },
+              { type: "stdout", data: "thinking...", delayMs: 5_000 },
+            ],
+          },
+          {
+            interruptPolicy: options.interruptPolicy,
+            turnFraming: { settleMs: 50 },
+            ignoredSignals: backends.length === 0 ? ["SIGINT", "SIGINT", "SIGTERM"] : [],
+          },
+        );
+        backends.push(backend);
+        return backend;
+      },
+    });
+    await agent.initialize({ protocolVersion: 1 } as protocol.InitializeRequest);
+    const { sessionId } = await agent.newSession({ cwd: "/test/dir" } as protocol.NewSessionRequest);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    const response = agent.prompt({
+      sessionId,
+      prompt: [{ type: "text", text: "Refactor everything" }],
+    } as protocol.PromptRequest);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await agent.cancel({ sessionId } as protocol.CancelNotification);
+
+    expect((await response).stopReason).toBe("cancelled");
+    expect(backends[0].signals).toEqual(["SIGINT", "SIGINT", "SIGTERM", "SIGKILL"]);
+    const text = mockClient.sessionUpdates
+      .filter((u) => (u.update as { sessionUpdate: string }).sessionUpdate === "agent_message_chunk")
+      .map((u) => (u.update as { content: { text: string } }).content.text)
+      .join("");
+    expect(text).toContain("was killed (SIGKILL)");
+    expect(backends).toHaveLength(2);
+  });
+});
+
+describe("Session limits", () => {
+  type MockProcess = { commands: string[] };
+  type MockSession = { aiderProcess?: MockProcess; files: string[] };
+
+  function messages(mockClient: ReturnType<typeof createMockClient>, sessionId: string): string[] {
+    return mockClient.sessionUpdates
+      .filter((u) => u.sessionId === sessionId)
+      .filter((u) => (u.update as { sessionUpdate: string }).sessionUpdate === "agent_message_chunk")
+      .map((u) => (u.update as { content: { text: string } }).content.text);
+  }
+
+  it("stops an idle session's process and restarts it on the next prompt", async () => {
+    const mockClient = createMockClient();
+    const agent = new AiderAcpAgent(mockClient, { sessionLimits: { idleMs: 20 } });
+    await agent.initialize({ protocolVersion: 1 } as protocol.InitializeRequest);
+    const { sessionId } = await agent.newSession({ cwd: "/test/dir" } as protocol.NewSessionRequest);
+    const sessions = (agent as unknown as { sessions: Map<string, MockSession> }).sessions;
+    sessions.get(sessionId)!.files = ["/test/dir/a.ts"];
+
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    expect(sessions.get(sessionId)!.aiderProcess).toBeUndefined();
+    const suspended = messages(mockClient, sessionId);
+    expect(suspended.some((text) => text.includes("without a prompt"))).toBe(true);
+    expect(suspended.some((text) => text.includes("terminated"))).toBe(false);
+
+    const response = await agent.prompt({
+      sessionId,
+      prompt: [{ type: "text", text: "Hello again" }],
+    } as protocol.PromptRequest);
+
+    expect(response.stopReason).toBe("end_turn");
+    const commands = sessions.get(sessionId)!.aiderProcess!.commands;
+    expect(commands[0]).toBe("/add /test/dir/a.ts");
+    expect(commands[commands.length - 1]).toBe("Hello again");
+  });
+
+  it("suspends the least recently used session at the session limit and resumes it", async () => {
+    const mockClient = createMockClient();
+    const agent = new AiderAcpAgent(mockClient, { sessionLimits: { maxSessions: 1 } });
+    await agent.initialize({ protocolVersion: 1 } as protocol.InitializeRequest);
+    const first = await agent.newSession({ cwd: "/test/dir" } as protocol.NewSessionRequest);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    const sessions = (agent as unknown as { sessions: Map<string, MockSession> }).sessions;
+    sessions.get(first.sessionId)!.files = ["/test/dir/a.ts"];
+    // Session ids are timestamps.
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const second = await agent.newSession({ cwd: "/test/dir" } as protocol.NewSessionRequest);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(messages(mockClient, first.sessionId).join("")).toContain("at most 1 at once");
+    expect(sessions.get(first.sessionId)!.aiderProcess).toBeUndefined();
+
+    const response = await agent.prompt({
+      sessionId: first.sessionId,
+      prompt: [{ type: "text", text: "Still there?" }],
+    } as protocol.PromptRequest);
+
+    expect(response.stopReason).toBe("end_turn");
+    const commands = sessions.get(first.sessionId)!.aiderProcess!.commands;
+    expect(commands[0]).toBe("/add /test/dir/a.ts");
+    expect(commands[commands.length - 1]).toBe("Still there?");
+    expect(sessions.get(second.sessionId)!.aiderProcess).toBeUndefined();
+    expect(messages(mockClient, second.sessionId).join("")).toContain("at most 1 at once");
+  });
+});
+
+describe("Shutdown", () => {
+  type StoppableProcess = { stop(): void };
+
+  async function createAgent(sessionCount: number): Promise<{
+    agent: AiderAcpAgent;
+    mockClient: ReturnType<typeof createMockClient>;
+    sessionIds: string[];
+    processes: StoppableProcess[];
+  }> {
+    const mockClient = createMockClient();
+    const agent = new AiderAcpAgent(mockClient);
+    await agent.initialize({ protocolVersion: 1 } as protocol.InitializeRequest);
+    const sessions = (agent as unknown as { sessions: Map<string, { aiderProcess?: StoppableProcess }> })
+      .sessions;
+    const sessionIds: string[] = [];
+    for (let i = 0; i < sessionCount; i += 1) {
+      const { sessionId } = await agent.newSession({ cwd: "/test/dir" } as protocol.NewSessionRequest);
+      sessionIds.push(sessionId);
+      // Session ids are timestamps.
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+    const processes = sessionIds.map((sessionId) => sessions.get(sessionId)!.aiderProcess!);
+    return { agent, mockClient, sessionIds, processes };
+  }
+
+  it("stops every session's process without restarting it", async () => {
+    const { agent, mockClient, processes } = await createAgent(2);
+    expect(processes).toHaveLength(2);
+    const stops = processes.map((process) => vi.spyOn(process, "stop"));
+
+    await agent.shutdown(1000);
+
+    for (const stop of stops) {
+      expect(stop).toHaveBeenCalledTimes(1);
+    }
+    const sessions = (agent as unknown as { sessions: Map<string, unknown> }).sessions;
+    expect(sessions.size).toBe(0);
+    const text = mockClient.sessionUpdates
+      .map((u) => (u.update as { content?: { text?: string } }).content?.text ?? "")
+      .join("");
+    expect(text).not.toContain("terminated");
+  });
+
+  it("gives up waiting for processes that do not exit", async () => {
+    const { agent, processes } = await createAgent(1);
+    processes[0].stop = () => {};
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    await agent.shutdown(20);
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("did not exit within 20ms"));
+    warn.mockRestore();
+  });
+
+  it("waits for notifications that are still being written", async () => {
+    const { agent, mockClient, sessionIds } = await createAgent(1);
+    let flushed = false;
+    const original = mockClient.sessionUpdate.bind(mockClient);
+    mockClient.sessionUpdate = async (params) => {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      flushed = true;
+      return original(params);
+    };
+    await agent.setMode({ sessionId: sessionIds[0], modeId: "ask" });
+
+    await agent.shutdown(1000);
+
+    expect(flushed).toBe(true);
+  });
 });
 
 describe("Model configuration", () => {
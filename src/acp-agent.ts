@@ -1,13 +1,75 @@
 import * as protocol from "@agentclientprotocol/sdk";
 import * as fs from "fs";
 import * as path from "path";
-import { Plan, SessionState, ToolCallState } from "./types.js";
-import { AiderProcessManager, AiderState } from "./aider-runner.js";
+import { PendingEdit, Plan, SessionState, ToolCallState } from "./types.js";
+import {
+  AiderBackend,
+  AiderBackendFactory,
+  AiderBackendOptions,
+  AiderExitDetails,
+  AiderState,
+  InterruptPolicy,
+  InterruptResult,
+} from "./aider-backend.js";
+import { AiderProcessManager } from "./aider-runner.js";
+import { AiderSupervisor, RestartPolicy } from "./aider-supervisor.js";
+import { AiderCommandQueue, CommandOutcome } from "./command-queue.js";
+import { AiderProcessPool, ProcessPoolOptions, loadProcessPoolOptions } from "./process-pool.js";
+import { SessionLimits, loadSessionLimits } from "./session-limits.js";
+import {
+  AiderLaunchProfile,
+  LaunchProfileOverrides,
+  buildAiderCommand,
+  formatCommandLine,
+  loadEnvLaunchProfile,
+  loadProjectLaunchProfile,
+  mergeLaunchProfiles,
+  parseLaunchProfile,
+} from "./launch-profile.js";
+import {
+  TurnTimeouts,
+  TurnWatchdog,
+  WatchdogTrigger,
+  loadTurnTimeouts,
+} from "./turn-watchdog.js";
 import {
-  parseAiderOutput,
   formatAiderInfo,
   convertEditBlocksToACPDiffs,
+  EditBlock,
 } from "./aider-output-parser.js";
+import { AiderOutputStream, StreamedOutput } from "./output-stream.js";
+import { OutputPart, ReasoningFilter } from "./reasoning.js";
+import { FileSnapshots, diffFileContents, readFileContents } from "./file-snapshots.js";
+import { EditResults, decideEditOutcome, formatEditFailure, parseEditResults } from "./edit-results.js";
+import { addUsage, emptyUsage, formatUsageSummary } from "./usage.js";
+import { ProgressFilter, ScanProgress, containsProgressBar } from "./scan-progress.js";
+import {
+  ProviderError,
+  classifyProviderError,
+  formatProviderError,
+  mergeProviderErrors,
+  providerErrorStopReason,
+} from "./provider-errors.js";
+import { AiderQuestion, formatAiderQuestion } from "./question-parser.js";
+import {
+  formatProposalText,
+  isArchitectConfirmation,
+  isArchitectPromptMode,
+  isOneShotArchitectCommand,
+} from "./architect.js";
+import { buildPromptMatcher, readPromptMode } from "./turn-framing.js";
+import {
+  ShellCommand,
+  ShellCommandCall,
+  ShellCommandRunner,
+  commandLines,
+  findAskedCommand,
+  finishCommand,
+  formatCommandCall,
+  formatCommandOutput,
+  isRunCommandQuestion,
+  runShellCommand,
+} from "./shell-commands.js";
 import {
   formatSlashCommand,
   getAllowedSlashCommandNames,
@@ -33,8 +95,8 @@ function isModelInfo(candidate: unknown): candidate is protocol.ModelInfo {
   );
 }
 
-function loadConfiguredModels(): protocol.ModelInfo[] {
-  const configuredModels = process.env.AIDER_MODELS;
+function loadConfiguredModels(env: NodeJS.ProcessEnv): protocol.ModelInfo[] {
+  const configuredModels = env.AIDER_MODELS;
 
   if (!configuredModels) {
     return DEFAULT_MODELS;
@@ -63,9 +125,10 @@ function loadConfiguredModels(): protocol.ModelInfo[] {
   return DEFAULT_MODELS;
 }
 
-function resolveDefaultModelId(availableModels: protocol.ModelInfo[]): string {
-  const configuredDefault = process.env.AIDER_DEFAULT_MODEL;
-
+function resolveDefaultModelId(
+  availableModels: protocol.ModelInfo[],
+  configuredDefault: string | undefined,
+): string {
   if (
     configuredDefault &&
     availableModels.some((model) => model.modelId === configuredDefault)
@@ -76,16 +139,150 @@ function resolveDefaultModelId(availableModels: protocol.ModelInfo[]): string {
   return availableModels[0]?.modelId ?? DEFAULT_MODELS[0].modelId;
 }
 
+// Reads the chosen option from a permission response. Older clients reply with a
+// flattened `{ outcome: "selected", optionKind }` instead of the nested SDK shape.
+function resolveSelectedOptionId(
+  response: protocol.RequestPermissionResponse,
+  options: protocol.PermissionOption[],
+): string | undefined {
+  const outcome = (response as { outcome?: unknown }).outcome;
+
+  if (outcome && typeof outcome === "object") {
+    const selected = outcome as { outcome?: string; optionId?: string };
+    if (selected.outcome !== "selected") {
+      return undefined;
+    }
+    return options.find((option) => option.optionId === selected.optionId)?.optionId;
+  }
+
+  if (outcome !== "selected") {
+    return undefined;
+  }
+
+  const legacy = response as unknown as { optionId?: string; optionKind?: string };
+  const match =
+    options.find((option) => option.optionId === legacy.optionId) ??
+    options.find((option) => option.kind === legacy.optionKind);
+  return match?.optionId;
+}
+
+// The Aider command that switches to a chat mode; without a message it only changes the mode.
+function aiderModeCommand(modeId: string | undefined): string | null {
+  switch (modeId) {
+    case "architect":
+      return "/architect";
+    case "ask":
+      return "/ask";
+    case "code":
+      return "/code";
+    default:
+      return null;
+  }
+}
+
+// Tells the client how far the interrupt sequence had to go; a plain Ctrl-C needs no message.
+function describeInterruptResult(result: InterruptResult): string | null {
+  if (result.outcome === "unresponsive") {
+    return "❌ Aider ignored Ctrl-C, SIGTERM and SIGKILL. Start a new session to continue.";
+  }
+
+  switch (result.stage) {
+    case "interrupt":
+      return result.outcome === "exited" ? "⚠️ Aider exited after Ctrl-C." : null;
+    case "second_interrupt":
+      return result.outcome === "exited"
+        ? "⚠️ Aider ignored the first Ctrl-C and exited after the second one."
+        : "⚠️ Aider ignored the first Ctrl-C; a second one stopped it.";
+    case "terminate":
+      return "⚠️ Aider ignored Ctrl-C twice and was terminated (SIGTERM). Restarting it.";
+    case "kill":
+      return "🛑 Aider ignored Ctrl-C and SIGTERM and was killed (SIGKILL). Restarting it.";
+    default:
+      return null;
+  }
+}
+
+const createProcessBackend: AiderBackendFactory = ({
+  workingDir,
+  model,
+  launchProfile,
+  interruptPolicy,
+}) => new AiderProcessManager(workingDir, model, launchProfile, interruptPolicy);
+
+const DEFAULT_SHUTDOWN_TIMEOUT_MS = 5000;
+
+// Like Aider's own limit on feeding lint and test output back to the model.
+const MAX_COMMAND_OUTPUT_ROUNDS = 3;
+
+// Aider keeps the conversation in memory only, so a stopped process loses it.
+const RESUME_NOTICE =
+  "It restarts with this session's files and mode on your next prompt, but without the earlier conversation.";
+
+// The tool call showing an Aider progress bar, e.g. the initial repo scan.
+interface ScanToolCall {
+  toolCallId: string;
+  label: string;
+  percent: number;
+}
+
+function toLocation(filePath: string, line?: number): protocol.ToolCallLocation {
+  return line !== undefined ? { path: filePath, line } : { path: filePath };
+}
+
+export interface AiderAcpAgentOptions {
+  // Defaults to spawning the `aider` CLI; tests can swap in a scripted backend.
+  backendFactory?: AiderBackendFactory;
+  restartPolicy?: Partial<RestartPolicy>;
+  turnTimeouts?: Partial<TurnTimeouts>;
+  interruptPolicy?: Partial<InterruptPolicy>;
+  processPool?: Partial<ProcessPoolOptions>;
+  sessionLimits?: Partial<SessionLimits>;
+  // Where settings not given here are read from; defaults to process.env.
+  env?: NodeJS.ProcessEnv;
+  // Replaces the launch profile read from the environment.
+  launchProfile?: LaunchProfileOverrides;
+  // Replace AIDER_MODELS and AIDER_DEFAULT_MODEL.
+  models?: protocol.ModelInfo[];
+  defaultModelId?: string;
+  // Whether sessions read `.aider-acp.json` from their working directory (default true).
+  projectConfig?: boolean;
+  // Lets `.aider-acp.json` set the binary and env; defaults to AIDER_TRUST_PROJECT_CONFIG=1.
+  trustProjectConfig?: boolean;
+  // Runs the shell commands the user approves; defaults to a shell in the session's directory.
+  shellRunner?: ShellCommandRunner;
+}
+
 export class AiderAcpAgent implements protocol.Agent {
   private sessions: Map<string, SessionState> = new Map();
   private client: protocol.AgentSideConnection;
   private availableModels: protocol.ModelInfo[];
   private defaultModelId: string;
-
-  constructor(client: protocol.AgentSideConnection) {
+  private options: AiderAcpAgentOptions;
+  private turnTimeouts: TurnTimeouts;
+  private envLaunchProfile: LaunchProfileOverrides;
+  private trustProjectConfig: boolean;
+  private pool: AiderProcessPool;
+  private sessionLimits: SessionLimits;
+  // Notifications still being written to the client; awaited on shutdown.
+  private pendingUpdates = new Set<Promise<void>>();
+
+  constructor(client: protocol.AgentSideConnection, options: AiderAcpAgentOptions = {}) {
     this.client = client;
-    this.availableModels = loadConfiguredModels();
-    this.defaultModelId = resolveDefaultModelId(this.availableModels);
+    this.options = options;
+    const env = options.env ?? process.env;
+    this.turnTimeouts = { ...loadTurnTimeouts(env), ...options.turnTimeouts };
+    this.sessionLimits = { ...loadSessionLimits(env), ...options.sessionLimits };
+    this.envLaunchProfile = options.launchProfile ?? loadEnvLaunchProfile(env);
+    this.trustProjectConfig = options.trustProjectConfig ?? env.AIDER_TRUST_PROJECT_CONFIG === "1";
+    this.pool = new AiderProcessPool(options.backendFactory ?? createProcessBackend, {
+      ...loadProcessPoolOptions(env),
+      ...options.processPool,
+    });
+    this.availableModels = options.models ?? loadConfiguredModels(env);
+    this.defaultModelId = resolveDefaultModelId(
+      this.availableModels,
+      options.defaultModelId ?? env.AIDER_DEFAULT_MODEL,
+    );
   }
 
   async initialize(
@@ -135,7 +332,17 @@ export class AiderAcpAgent implements protocol.Agent {
     const requestedModel = this.extractRequestedModel(params._meta);
     const model = this.resolveModel(requestedModel);
 
-    const aiderProcess = new AiderProcessManager(workingDir, model);
+    const launchProfile = mergeLaunchProfiles(
+      this.envLaunchProfile,
+      this.options.projectConfig === false
+        ? {}
+        : await loadProjectLaunchProfile(workingDir, this.trustProjectConfig),
+      parseLaunchProfile(params._meta?.aider, "session/new _meta.aider"),
+    );
+
+    this.makeRoomForSession();
+
+    const { backend: aiderProcess, warm } = this.createBackend({ workingDir, model, launchProfile });
 
     const session: SessionState = {
       id: sessionId,
@@ -144,15 +351,21 @@ export class AiderAcpAgent implements protocol.Agent {
       files: [],
       readOnlyFiles: [],
       workingDir,
-      aiderProcess,
-      commandQueue: [],
+      launchProfile,
+      supervisor: new AiderSupervisor(this.options.restartPolicy),
       currentMode: "code",
       activeToolCalls: new Map<string, ToolCallState>(),
+      lastActivity: Date.now(),
     };
 
     this.sessions.set(sessionId, session);
-    this.setupAiderListeners(sessionId, aiderProcess);
+    this.attachBackend(sessionId, session, aiderProcess);
+    this.sendLaunchThought(sessionId, workingDir, model, launchProfile);
+    if (warm) {
+      this.sendThought(sessionId, "Using a pre-started Aider process from the pool.");
+    }
     aiderProcess.start();
+    this.scheduleIdleSuspend(sessionId, session);
 
     if (session.currentMode) {
       this.sendModeUpdate(sessionId, session.currentMode);
@@ -167,6 +380,21 @@ export class AiderAcpAgent implements protocol.Agent {
     };
   }
 
+  private sendLaunchThought(
+    sessionId: string,
+    workingDir: string,
+    model: string,
+    profile: AiderLaunchProfile,
+  ): void {
+    const { command, args } = buildAiderCommand(profile, model, workingDir);
+    const envKeys = Object.keys(profile.env);
+    const envSuffix = envKeys.length > 0 ? ` (extra env: ${envKeys.join(", ")})` : "";
+    this.sendThought(
+      sessionId,
+      `Launching Aider in ${workingDir}: ${formatCommandLine(command, args)}${envSuffix}`,
+    );
+  }
+
   private extractRequestedModel(
     meta: Record<string, unknown> | null | undefined,
   ): string | undefined {
@@ -204,14 +432,48 @@ export class AiderAcpAgent implements protocol.Agent {
   ): Promise<protocol.PromptResponse> {
     const { sessionId, prompt } = params;
     const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error("Invalid session or Aider process not running");
+    }
 
-    if (!session || !session.aiderProcess) {
+    session.activePrompts = (session.activePrompts ?? 0) + 1;
+    clearTimeout(session.idleTimer);
+    session.turnUsage = emptyUsage();
+    session.providerError = undefined;
+    try {
+      if (session.suspended) {
+        this.makeRoomForSession(session);
+        this.resumeSession(sessionId, session);
+      }
+      const response = await this.runPrompt(sessionId, session, prompt);
+      return this.reportTurnUsage(sessionId, session, this.applyProviderError(session, response));
+    } finally {
+      session.activePrompts -= 1;
+      if (session.activePrompts === 0) {
+        session.turnDeadline = undefined;
+      }
+      session.lastActivity = Date.now();
+      this.scheduleIdleSuspend(sessionId, session);
+    }
+  }
+
+  private async runPrompt(
+    sessionId: string,
+    session: SessionState,
+    prompt: Array<protocol.ContentBlock>,
+  ): Promise<protocol.PromptResponse> {
+    if (session.restarting) {
+      await session.restarting;
+    }
+
+    if (!session.aiderProcess) {
       throw new Error("Invalid session or Aider process not running");
     }
 
     // Clear any previous cancellation state for this turn
     session.cancelled = false;
     session.currentPlan = undefined;
+    session.turnDeadline = this.newTurnDeadline();
 
     // Separar el contenido de texto y los recursos
     this.validateContentBlocks(prompt);
@@ -221,12 +483,11 @@ export class AiderAcpAgent implements protocol.Agent {
       (item) => item.type === "resource" || item.type === "resource_link",
     );
 
-    // Combinar todos los textos y eliminar espacios vacíos
+    // Combinar los bloques de texto conservando saltos de línea e indentación
     const promptText = textContents
-      .map((item) => item.text?.trim() || "")
-      .filter((text) => text.length > 0)
-      .join(" ")
-      .trim();
+      .map((item) => item.text?.replace(/^(?:[ \t]*\n)+|\s+$/g, "") || "")
+      .filter((text) => text.trim().length > 0)
+      .join("\n");
 
     // Almacenar el último prompt para filtrarlo de la salida
     session.lastPromptText = promptText;
@@ -235,12 +496,13 @@ export class AiderAcpAgent implements protocol.Agent {
 
     // Si estamos esperando confirmación, manejar directamente
     if (agentState === AiderState.WAITING_FOR_CONFIRMATION) {
+      const options: protocol.PermissionOption[] = [
+        { optionId: "allow", kind: "allow_once", name: "Send confirmation" },
+        { optionId: "reject", kind: "reject_once", name: "Cancel" },
+      ];
       const permissionRequest = {
         sessionId,
-        options: [
-          { kind: "allow_once", name: "Send confirmation", title: "Send confirmation" },
-          { kind: "reject_once", name: "Cancel", title: "Cancel" },
-        ],
+        options,
         toolCall: {
           toolCallId: `confirm_${Date.now()}`,
           title: promptText || "Continue with the pending confirmation?",
@@ -249,25 +511,18 @@ export class AiderAcpAgent implements protocol.Agent {
       } as unknown as protocol.RequestPermissionRequest;
 
       const permission = await this.client.requestPermission(permissionRequest);
+      const selectedOptionId = resolveSelectedOptionId(permission, options);
 
-      const selectedPermission = permission as unknown as {
-        outcome: string;
-        optionKind?: string;
-      };
-      if (selectedPermission.outcome === "selected") {
-        if (selectedPermission.optionKind?.startsWith("allow")) {
-          session.aiderProcess.answerConfirmation(promptText || "yes");
-          await this.waitForTurnCompletion(sessionId, session);
-          return { stopReason: session.cancelled ? "cancelled" : "end_turn" };
-        }
-
-        session.cancelled = true;
-        session.aiderProcess.interrupt();
-        return { stopReason: "cancelled" };
+      if (selectedOptionId === "allow") {
+        const outcome = this.waitForNextTurn(session.aiderProcess);
+        session.aiderProcess.answerConfirmation(promptText.trim() || "yes");
+        await this.waitForTurnCompletion(sessionId, session, outcome, true);
+        await this.sendCommandOutput(sessionId, session);
+        return { stopReason: session.cancelled ? "cancelled" : "end_turn" };
       }
 
       session.cancelled = true;
-      session.aiderProcess.interrupt();
+      void this.interruptAider(sessionId, session);
       return { stopReason: "cancelled" };
     }
 
@@ -302,8 +557,9 @@ export class AiderAcpAgent implements protocol.Agent {
       if (slashCommand.kind === "command") {
         const aiderCommand = formatSlashCommand(slashCommand);
         this.sendThought(sessionId, `Dispatching ${aiderCommand} to Aider.`);
-        session.aiderProcess.sendCommand(aiderCommand);
-        await this.waitForTurnCompletion(sessionId, session);
+        await this.snapshotChatFiles(session);
+        await this.runCommand(sessionId, session, aiderCommand, true);
+        await this.sendCommandOutput(sessionId, session);
 
         const entry = slashPlan.entries[0];
         if (entry) {
@@ -388,9 +644,10 @@ export class AiderAcpAgent implements protocol.Agent {
     // Después de procesar todos los recursos, enviar el texto del prompt si existe
     if (promptText.trim().length > 0) {
       this.sendThought(sessionId, "Forwarding prompt text to Aider.");
-      session.aiderProcess.sendCommand(promptText);
+      await this.snapshotChatFiles(session);
       // Esperar a que se complete el turno
-      await this.waitForTurnCompletion(sessionId, session);
+      await this.runCommand(sessionId, session, promptText, true);
+      await this.sendCommandOutput(sessionId, session);
 
       if (plan.entries.length > 0) {
         const lastEntryIndex = plan.entries.length - 1;
@@ -413,158 +670,109 @@ export class AiderAcpAgent implements protocol.Agent {
       throw new Error("Session not found");
     }
 
+    const previousMode = session.currentMode;
     session.currentMode = params.modeId;
     this.sendModeUpdate(params.sessionId, params.modeId);
 
+    // Without a running process the mode is entered when the session state is replayed.
+    const modeCommand = aiderModeCommand(params.modeId);
+    if (modeCommand && params.modeId !== previousMode) {
+      await this.runCommand(params.sessionId, session, modeCommand);
+    }
+
     return {};
   }
 
   private setupAiderListeners(
     sessionId: string,
-    processManager: AiderProcessManager,
+    processManager: AiderBackend,
   ): void {
     const session = this.sessions.get(sessionId);
     if (!session) return;
-    processManager.on("data", (data: string) => {
-      // Parse the complete data to extract structured output
-      const parsedOutput = parseAiderOutput(data);
-      const { info, userMessage, editBlocks, codeBlocks, prompts, classifiedMessages } =
-        parsedOutput;
-
-      // Send file action messages with emoji formatting
-      const fileActions = classifiedMessages
-        .filter((msg) => msg.type === "file_action")
-        .map((msg) => {
-          if (msg.text.startsWith("Added ") || msg.text.startsWith("Removed ")) {
-            return `📁 ${msg.text}`;
-          }
-          if (msg.text.includes("already in the chat")) {
-            return `⚠️ ${msg.text}`;
-          }
-          return msg.text;
-        });
-
-      for (const action of fileActions) {
-        this.client.sessionUpdate({
-          sessionId,
-          update: {
-            sessionUpdate: "agent_message_chunk",
-            content: { type: "text", text: action },
-          },
-        });
-      }
-
-      // Send warnings
-      const warnings = classifiedMessages.filter((msg) => msg.type === "warning");
-      for (const warning of warnings) {
-        this.client.sessionUpdate({
-          sessionId,
-          update: {
-            sessionUpdate: "agent_message_chunk",
-            content: { type: "text", text: `⚠️ ${warning.text}` },
-          },
-        });
-      }
-
-      // Send errors from classified messages
-      const errors = classifiedMessages.filter((msg) => msg.type === "error");
-      for (const error of errors) {
-        this.client.sessionUpdate({
-          sessionId,
-          update: {
-            sessionUpdate: "agent_message_chunk",
-            content: { type: "text", text: `❌ ${error.text}` },
-          },
-        });
-      }
-
-      // Format Aider system info if present
-      if (Object.keys(info).length > 0) {
-        const formattedInfo = formatAiderInfo(info);
-        if (formattedInfo.trim().length > 0) {
-          this.client.sessionUpdate({
-            sessionId,
-            update: {
-              sessionUpdate: "agent_message_chunk",
-              content: { type: "text", text: formattedInfo },
-            },
-          });
+    // Edit blocks and fenced code are only parsed once they are complete.
+    const output = new AiderOutputStream();
+    // Repo-scan progress bars become a tool call that updates in place.
+    const progressFilter = new ProgressFilter();
+    let scan: ScanToolCall | null = null;
+    const promptMatcher = buildPromptMatcher();
+    // Reasoning goes out as thoughts; the answer and everything else through the output stream.
+    const reasoning = new ReasoningFilter();
+    const forward = (parts: OutputPart[]): void => {
+      for (const part of parts) {
+        if (!part.reasoning) {
+          this.sendAiderOutput(sessionId, session, output.push(part.text));
+          continue;
         }
+        if (output.hasPending()) {
+          this.sendAiderOutput(sessionId, session, output.flush());
+        }
+        this.sendThought(sessionId, part.text);
       }
+    };
 
-      // Show confirmation prompts / interactive text
-      for (const promptLine of prompts) {
-        this.client.sessionUpdate({
-          sessionId,
-          update: {
-            sessionUpdate: "agent_message_chunk",
-            content: {
-              type: "text",
-              text: `**Aider requires input:**\n${promptLine}`,
-            },
-          },
-        });
+    processManager.on("data", (data: string) => {
+      const { progress, text } = progressFilter.push(data);
+      for (const frame of progress) {
+        scan = this.reportScanProgress(sessionId, session, scan, frame);
       }
-
-      // Send user message (main content) if present
-      if (userMessage.trim().length > 0) {
-        this.client.sessionUpdate({
-          sessionId,
-          update: {
-            sessionUpdate: "agent_message_chunk",
-            content: { type: "text", text: userMessage },
-          },
-        });
+      // The prompt Aider last showed tells whether this turn goes to the architect model,
+      // unless the command itself is a one-shot "/architect <message>".
+      const command = session.commandQueue?.getInFlightCommand();
+      if (
+        !session.architect &&
+        (isArchitectPromptMode(session.promptMode) || (command !== undefined && isOneShotArchitectCommand(command)))
+      ) {
+        session.architect = { phase: "proposal", proposal: "" };
       }
+      if (text.length === 0) {
+        return;
+      }
+      forward(reasoning.push(text));
+    });
 
-      // Send edit blocks as tool calls with ACP diffs
-      if (editBlocks.length > 0) {
-        const acpDiffs = convertEditBlocksToACPDiffs(editBlocks, session.workingDir);
-        for (let i = 0; i < acpDiffs.length; i++) {
-          const diff = acpDiffs[i];
-          const toolCallId = `edit_${Date.now()}_${i}`;
-
-          this.startToolCall(sessionId, session, {
-            id: toolCallId,
-            kind: "edit",
-            title: `Editing ${diff.path}`,
-            locations: [{ path: diff.path }],
-          });
-
-          this.completeToolCall(sessionId, session, toolCallId, {
-            status: "completed",
-            content: [diff],
-          });
-        }
+    processManager.on("ready", () => {
+      if (scan) {
+        this.finishScanProgress(sessionId, session, scan);
+        scan = null;
       }
+    });
 
-      // Send code blocks if present
-      for (const codeBlock of codeBlocks) {
-        this.client.sessionUpdate({
-          sessionId,
-          update: {
-            sessionUpdate: "agent_message_chunk",
-            content: {
-              type: "text",
-              text: `\`\`\`${codeBlock.path}\n${codeBlock.content}\n\`\`\``,
-            },
-          },
-        });
+    processManager.on("turn_completed", (turnOutput: string) => {
+      const held = progressFilter.flush();
+      if (held.length > 0) {
+        forward(reasoning.push(held));
       }
+      forward(reasoning.flush());
+      this.sendAiderOutput(sessionId, session, output.flush());
+      // Blocks Aider did not offer to run stay pending; nothing will run them now.
+      session.shellCommands = undefined;
+      session.editsReported = this.reportPendingEdits(
+        sessionId,
+        session,
+        parseEditResults(turnOutput),
+        "Aider did not report applying this edit.",
+      );
+      session.architect = undefined;
+      session.promptMode = readPromptMode(turnOutput, promptMatcher) ?? session.promptMode;
     });
 
     processManager.on("error", (errorData: string) => {
       const errorStr = errorData.toString();
 
-      // Ignore progress bars, they are not errors
-      if (errorStr.includes("Scanning repo:")) {
-        // TODO: Parse this and send as a proper progress notification
+      // Progress bars are not errors; the data listener reports them.
+      if (containsProgressBar(errorStr)) {
+        return;
+      }
+
+      const providerError = classifyProviderError(errorStr);
+      if (providerError) {
+        this.reportProviderError(sessionId, session, providerError);
         return;
       }
 
       // Handle specific warnings without treating them as critical errors
       if (errorStr.includes("leaked semaphore objects")) {
-        this.client.sessionUpdate({
+        this.notify({
           sessionId,
           update: {
             sessionUpdate: "agent_message_chunk",
@@ -580,7 +788,7 @@ ${errorStr}`,
       }
 
       // For all other errors, report them
-      this.client.sessionUpdate({
+      this.notify({
         sessionId,
         update: {
           sessionUpdate: "agent_message_chunk",
@@ -594,89 +802,782 @@ ${errorStr}`,
       });
     });
 
-    processManager.on("confirmation_required", (question: string) => {
+    processManager.on("confirmation_required", (question: AiderQuestion) => {
+      // The question line has no newline, so it would swallow the output after the answer.
+      forward(reasoning.flush());
+      this.sendAiderOutput(sessionId, session, output.flush());
       const currentSession = this.sessions.get(sessionId);
       if (!currentSession) return;
+      this.askAiderQuestion(sessionId, currentSession, question);
+    });
+
+    processManager.on("exit", (message: string, details?: AiderExitDetails) => {
+      const session = this.sessions.get(sessionId);
+      if (!session || session.aiderProcess !== processManager) return;
+      forward(reasoning.flush());
+      if (output.hasPending()) {
+        this.sendAiderOutput(sessionId, session, output.flush());
+      }
+      if (scan) {
+        this.updateToolCall(sessionId, session, scan.toolCallId, { status: "failed" });
+        scan = null;
+      }
+      session.editsReported = this.reportPendingEdits(
+        sessionId,
+        session,
+        { events: [], malformed: false },
+        "Aider exited before applying this edit.",
+      );
+      session.shellCommands = undefined;
+      session.architect = undefined;
+      session.aiderProcess = undefined;
+
+      if (details?.expected || !session.supervisor) {
+        // Suspension already told the client why Aider stopped.
+        if (!session.suspended) {
+          this.sendAgentMessage(sessionId, `\n**Aider process terminated:** ${message}`);
+        }
+        return;
+      }
+
+      session.restarting = this.restartAiderProcess(sessionId, session, message).finally(() => {
+        session.restarting = undefined;
+      });
+    });
+  }
+
+  private sendAiderOutput(
+    sessionId: string,
+    session: SessionState,
+    parsedOutput: StreamedOutput,
+  ): void {
+    const { info, segments, classifiedMessages } = parsedOutput;
+
+    if (info.providerError) {
+      this.reportProviderError(sessionId, session, info.providerError);
+    }
+
+    if (info.usage) {
+      session.usage = addUsage(session.usage ?? emptyUsage(), info.usage);
+      session.turnUsage = addUsage(session.turnUsage ?? emptyUsage(), info.usage);
+      // A usage report means a retry got through after all.
+      session.providerError = undefined;
+    }
+
+    // Send file action messages with emoji formatting
+    const fileActions = classifiedMessages
+      .filter((msg) => msg.type === "file_action")
+      .map((msg) => {
+        if (msg.text.startsWith("Added ") || msg.text.startsWith("Removed ")) {
+          return `📁 ${msg.text}`;
+        }
+        if (msg.text.includes("already in the chat")) {
+          return `⚠️ ${msg.text}`;
+        }
+        return msg.text;
+      });
+
+    for (const action of fileActions) {
+      this.notify({
+        sessionId,
+        update: {
+          sessionUpdate: "agent_message_chunk",
+          content: { type: "text", text: action },
+        },
+      });
+    }
 
-      void (async () => {
-        this.client.sessionUpdate({
+    // Warnings and errors go out once, with the rest of Aider's info below.
+    // Format Aider system info if present
+    if (Object.keys(info).length > 0) {
+      const formattedInfo = formatAiderInfo(info);
+      if (formattedInfo.trim().length > 0) {
+        this.notify({
           sessionId,
           update: {
-            sessionUpdate: "agent_thought_chunk",
-            content: {
-              type: "text",
-              text: "Requesting permission to proceed with Aider confirmation.",
-            },
+            sessionUpdate: "agent_message_chunk",
+            content: { type: "text", text: formattedInfo },
           },
         });
+      }
+    }
+
+    // The architect's proposal is thinking ahead of the edits; the editor phase is handled as usual.
+    if (session.architect?.phase === "proposal") {
+      const proposal = formatProposalText(parsedOutput.text);
+      if (proposal.trim().length > 0) {
+        session.architect.proposal += proposal;
+        this.sendThought(sessionId, proposal);
+      }
+      return;
+    }
 
-        const permissionRequest = {
+    // The reply goes out in the order Aider wrote it, with edits as tool calls in between.
+    for (const segment of segments) {
+      if (segment.kind === "edit") {
+        this.reportEdits(sessionId, session, segment.blocks);
+      } else if (segment.kind === "shell" && session.promptMode !== "ask") {
+        this.reportShellSuggestion(sessionId, session, segment.command);
+      } else if (segment.text.trim().length > 0) {
+        this.notify({
           sessionId,
-          options: [
-            { kind: "allow_once", name: "Allow this time", title: "Allow this time" },
-            { kind: "allow_always", name: "Always allow", title: "Always allow" },
-            { kind: "reject_once", name: "Deny", title: "Deny" },
-            { kind: "reject_always", name: "Always deny", title: "Always deny" },
-          ],
-          toolCall: {
-            toolCallId: `confirm_${Date.now()}`,
-            title: question,
-            status: "pending",
+          update: {
+            sessionUpdate: "agent_message_chunk",
+            content: { type: "text", text: segment.text },
           },
-        } as unknown as protocol.RequestPermissionRequest;
-
-        const result = await this.client.requestPermission(permissionRequest);
-
-        const selectedResult = result as unknown as {
-          outcome: string;
-          optionKind?: string;
-        };
-        if (selectedResult.outcome === "selected") {
-          if (selectedResult.optionKind?.startsWith("allow")) {
-            currentSession.aiderProcess?.answerConfirmation("yes");
-            return;
-          }
+        });
+      }
+    }
+  }
 
-          currentSession.cancelled = true;
-          currentSession.aiderProcess?.interrupt();
-          return;
-        }
+  // Edit blocks become tool calls with ACP diffs; they are resolved against
+  // the files once Aider has written them at the end of the turn.
+  private reportEdits(sessionId: string, session: SessionState, editBlocks: EditBlock[]): void {
+    const acpDiffs = convertEditBlocksToACPDiffs(editBlocks, session.workingDir);
+    const snapshots = (session.fileSnapshots ??= new FileSnapshots());
+    const pendingEdits = (session.pendingEdits ??= new Map());
+
+    // One tool call per file, carrying every hunk Aider sent for it
+    const diffsByPath = new Map<string, PendingEdit>();
+    acpDiffs.forEach((diff, blockIndex) => {
+      const group = diffsByPath.get(diff.path);
+      if (group) {
+        group.diffs.push(diff);
+        group.line ??= editBlocks[blockIndex].line;
+      } else {
+        diffsByPath.set(diff.path, { toolCallId: "", diffs: [diff], line: editBlocks[blockIndex].line });
+      }
+    });
+
+    for (const [filePath, group] of diffsByPath) {
+      const pending = pendingEdits.get(filePath);
+      if (pending) {
+        pending.diffs.push(...group.diffs);
+        pending.line ??= group.line;
+        this.updateToolCall(sessionId, session, pending.toolCallId, {
+          status: "in_progress",
+          content: [...pending.diffs],
+        });
+        continue;
+      }
+
+      void snapshots.capture(filePath);
+      const edit: PendingEdit = {
+        ...group,
+        toolCallId: `edit_${Date.now()}_${pendingEdits.size}`,
+      };
+      pendingEdits.set(filePath, edit);
+
+      this.startToolCall(sessionId, session, {
+        id: edit.toolCallId,
+        kind: "edit",
+        title: `Editing ${filePath}`,
+        locations: [toLocation(filePath, edit.line)],
+      });
+      this.updateToolCall(sessionId, session, edit.toolCallId, {
+        status: "in_progress",
+        content: [...edit.diffs],
+      });
+    }
+  }
 
-        currentSession.cancelled = true;
-        currentSession.aiderProcess?.interrupt();
-      })();
+  // Each suggested block waits as an execute tool call until Aider asks to run it.
+  private reportShellSuggestion(sessionId: string, session: SessionState, command: ShellCommand): void {
+    const calls = (session.shellCommands ??= []);
+    const call: ShellCommandCall = {
+      toolCallId: `shell_${Date.now()}_${calls.length}`,
+      command: command.command,
+      status: "suggested",
+      output: "",
+    };
+    calls.push(call);
+
+    this.startToolCall(sessionId, session, {
+      id: call.toolCallId,
+      kind: "execute",
+      title: commandLines(call.command).join("; "),
+      status: "pending",
+      rawInput: { command: call.command },
     });
+    this.updateShellCommand(sessionId, session, call);
+  }
 
-    processManager.on("exit", (message: string) => {
-      this.client.sessionUpdate({
-        sessionId,
-        update: {
-          sessionUpdate: "agent_message_chunk",
-          content: {
-            type: "text",
-            text: `
-**Aider process terminated:** ${message}`,
-          },
+  private updateShellCommand(
+    sessionId: string,
+    session: SessionState,
+    call: ShellCommandCall,
+  ): void {
+    let status: protocol.ToolCallStatus = "completed";
+    if (call.status === "declined" || (call.exitCode ?? 0) !== 0) {
+      status = "failed";
+    } else if (call.status === "suggested") {
+      status = "pending";
+    } else if (call.status === "running") {
+      status = "in_progress";
+    }
+
+    this.updateToolCall(sessionId, session, call.toolCallId, {
+      status,
+      content: [{ type: "content", content: { type: "text", text: formatCommandCall(call) } }],
+      ...(call.status === "finished"
+        ? { rawOutput: { output: call.output, exitCode: call.exitCode ?? null } }
+        : {}),
+    });
+  }
+
+  /**
+   * Runs an approved command in the session's directory, streaming its output
+   * into the tool call. The output and exit code go to Aider with the next message.
+   */
+  private async runApprovedCommand(
+    sessionId: string,
+    session: SessionState,
+    call: ShellCommandCall,
+  ): Promise<void> {
+    const abort = new AbortController();
+    session.runningCommand = abort;
+    call.status = "running";
+    this.updateShellCommand(sessionId, session, call);
+
+    const runner = this.options.shellRunner ?? runShellCommand;
+    let exitCode: number;
+    try {
+      exitCode = await runner(call.command, {
+        cwd: session.workingDir,
+        env: session.launchProfile?.env ?? {},
+        signal: abort.signal,
+        onOutput: (text) => {
+          call.output += text;
+          this.updateShellCommand(sessionId, session, call);
         },
       });
-      const session = this.sessions.get(sessionId);
-      if (session) session.aiderProcess = undefined;
+    } catch (error) {
+      call.output += `${error instanceof Error ? error.message : String(error)}\n`;
+      exitCode = 1;
+    } finally {
+      session.runningCommand = undefined;
+    }
+
+    finishCommand(call, exitCode);
+    this.updateShellCommand(sessionId, session, call);
+    session.commandOutput = (session.commandOutput ?? "") + formatCommandOutput(call);
+  }
+
+  /**
+   * Sends the output of the commands run during this turn to Aider before the
+   * turn ends, where Aider would have added it to its chat. Aider answers it,
+   * and commands suggested in that answer can go round again, up to a limit.
+   */
+  private async sendCommandOutput(sessionId: string, session: SessionState): Promise<void> {
+    for (let round = 0; round < MAX_COMMAND_OUTPUT_ROUNDS; round += 1) {
+      const output = session.commandOutput;
+      session.commandOutput = undefined;
+      if (!output || session.cancelled) {
+        return;
+      }
+      this.sendThought(sessionId, "Sending the command output to Aider.");
+      await this.runCommand(sessionId, session, output, true);
+    }
+    session.commandOutput = undefined;
+  }
+
+  private reportScanProgress(
+    sessionId: string,
+    session: SessionState,
+    scan: ScanToolCall | null,
+    frame: ScanProgress,
+  ): ScanToolCall | null {
+    if (scan && scan.label !== frame.label) {
+      this.finishScanProgress(sessionId, session, scan);
+      scan = null;
+    }
+
+    if (!scan) {
+      scan = { toolCallId: `scan_${Date.now()}`, label: frame.label, percent: -1 };
+      this.startToolCall(sessionId, session, {
+        id: scan.toolCallId,
+        kind: "read",
+        title: frame.label,
+      });
+    }
+
+    // tqdm redraws many times a second; only report visible changes.
+    if (frame.percent !== scan.percent || frame.finished) {
+      scan.percent = frame.percent;
+      this.updateToolCall(sessionId, session, scan.toolCallId, {
+        status: frame.finished ? "completed" : "in_progress",
+        content: [
+          {
+            type: "content",
+            content: { type: "text", text: `${frame.done}/${frame.total} files (${frame.percent}%)` },
+          },
+        ],
+      });
+    }
+
+    return frame.finished ? null : scan;
+  }
+
+  // Aider reached its prompt, so a scan that never drew its last frame is over.
+  private finishScanProgress(sessionId: string, session: SessionState, scan: ScanToolCall): void {
+    this.updateToolCall(sessionId, session, scan.toolCallId, { status: "completed" });
+  }
+
+  // Starts a turn's snapshots with the files in the chat; files Aider edits
+  // outside it are read when their edit block arrives.
+  private async snapshotChatFiles(session: SessionState): Promise<void> {
+    const snapshots = new FileSnapshots();
+    session.fileSnapshots = snapshots;
+    await Promise.all(
+      session.files.map((filePath) => snapshots.capture(path.resolve(session.workingDir, filePath))),
+    );
+  }
+
+  // Replaces each pending edit's parsed blocks with a diff of the whole file
+  // as it was before the turn and as Aider left it, and marks the tool call
+  // failed when Aider could not apply it.
+  private async reportPendingEdits(
+    sessionId: string,
+    session: SessionState,
+    results: EditResults,
+    unconfirmedReason: string,
+  ): Promise<void> {
+    const pendingEdits = session.pendingEdits;
+    if (!pendingEdits || pendingEdits.size === 0) return;
+    session.pendingEdits = undefined;
+    const snapshots = session.fileSnapshots;
+
+    await Promise.all(
+      [...pendingEdits].map(async ([filePath, edit]) => {
+        const before = await snapshots?.get(filePath);
+        const after = await readFileContents(filePath);
+        snapshots?.forget(filePath);
+
+        const resolved = before ? diffFileContents(filePath, before, after) : null;
+        const outcome = decideEditOutcome(
+          results,
+          filePath,
+          session.workingDir,
+          resolved !== null,
+          unconfirmedReason,
+        );
+        const content: protocol.ToolCallContent[] = resolved ? [resolved.diff] : [...edit.diffs];
+        if (outcome.status === "failed") {
+          content.push({ type: "content", content: { type: "text", text: formatEditFailure(outcome) } });
+        }
+
+        this.updateToolCall(sessionId, session, edit.toolCallId, {
+          status: outcome.status,
+          content,
+          locations: [toLocation(filePath, resolved?.line ?? edit.line)],
+        });
+      }),
+    );
+  }
+
+  private async restartAiderProcess(
+    sessionId: string,
+    session: SessionState,
+    reason: string,
+  ): Promise<boolean> {
+    const decision = session.supervisor!.recordCrash();
+
+    if (decision.action === "give_up") {
+      const windowSeconds = Math.round(session.supervisor!.getPolicy().windowMs / 1000);
+      this.sendAgentMessage(
+        sessionId,
+        `\n❌ **Aider process terminated:** ${reason}. It crashed ${decision.crashes} times within ${windowSeconds}s, so it will not be restarted. Start a new session to continue.`,
+      );
+      this.sessions.delete(sessionId);
+      clearTimeout(session.idleTimer);
+      session.commandQueue?.dispose();
+      return false;
+    }
+
+    this.sendAgentMessage(
+      sessionId,
+      `\n⚠️ **Aider process terminated:** ${reason}. Restarting in ${(decision.delayMs / 1000).toFixed(1)}s (attempt ${decision.attempt}/${session.supervisor!.getPolicy().maxRestarts}).`,
+    );
+
+    await new Promise((resolve) => setTimeout(resolve, decision.delayMs));
+    if (!this.sessions.has(sessionId)) {
+      return false;
+    }
+
+    const restored = await this.respawnAiderProcess(sessionId, session);
+    if (restored) {
+      this.sendAgentMessage(sessionId, "✅ Aider restarted; session state restored.");
+    }
+    return restored;
+  }
+
+  private async respawnAiderProcess(sessionId: string, session: SessionState): Promise<boolean> {
+    let aiderProcess: AiderBackend;
+    try {
+      ({ backend: aiderProcess } = this.createBackend({
+        workingDir: session.workingDir,
+        model: session.model,
+        launchProfile: session.launchProfile,
+      }));
+    } catch (error) {
+      this.sendAgentMessage(sessionId, `\n❌ Could not restart Aider: ${(error as Error).message}`);
+      return false;
+    }
+    this.attachBackend(sessionId, session, aiderProcess);
+    aiderProcess.start();
+
+    const ready = await this.waitForReady(aiderProcess);
+    if (!ready || session.aiderProcess !== aiderProcess) {
+      return false;
+    }
+
+    await this.replaySessionState(sessionId, session);
+    return true;
+  }
+
+  // Start-up is idempotent, so callers start the backend whether or not it is warm.
+  private createBackend(options: AiderBackendOptions): { backend: AiderBackend; warm: boolean } {
+    return this.pool.acquire({ interruptPolicy: this.options.interruptPolicy, ...options });
+  }
+
+  private attachBackend(sessionId: string, session: SessionState, backend: AiderBackend): void {
+    session.commandQueue?.dispose();
+    session.aiderProcess = backend;
+    const queue = new AiderCommandQueue(backend);
+    session.commandQueue = queue;
+    queue.on("depth", () => {
+      if (session.commandQueue === queue && this.sessions.get(sessionId) === session) {
+        this.sendQueueDepth(sessionId, session);
+      }
+    });
+    this.setupAiderListeners(sessionId, backend);
+
+    // A pre-started process may have asked something before anyone listened.
+    if (backend.pendingQuestion) {
+      this.askAiderQuestion(sessionId, session, backend.pendingQuestion);
+    }
+  }
+
+  private waitForReady(processManager: AiderBackend): Promise<boolean> {
+    if (processManager.getState() === AiderState.READY) {
+      return Promise.resolve(true);
+    }
+    return new Promise((resolve) => {
+      const cleanup = (): void => {
+        processManager.removeListener("ready", onReady);
+        processManager.removeListener("exit", onExit);
+      };
+      const onReady = (): void => {
+        cleanup();
+        resolve(true);
+      };
+      const onExit = (): void => {
+        cleanup();
+        resolve(false);
+      };
+      processManager.once("ready", onReady);
+      processManager.once("exit", onExit);
+    });
+  }
+
+  private async replaySessionState(sessionId: string, session: SessionState): Promise<void> {
+    const commands = [
+      ...session.files.map((filePath) => `/add ${filePath}`),
+      ...session.readOnlyFiles.map((filePath) => `/read-only ${filePath}`),
+    ];
+    // A fresh process starts in code mode.
+    const modeCommand = aiderModeCommand(session.currentMode);
+    if (modeCommand && session.currentMode !== "code") {
+      commands.push(modeCommand);
+    }
+
+    if (commands.length > 0) {
+      this.sendThought(
+        sessionId,
+        `Restoring session state: ${session.files.length} editable file(s), ${session.readOnlyFiles.length} read-only file(s), ${session.currentMode ?? "code"} mode, model ${session.model}.`,
+      );
+    }
+
+    for (const command of commands) {
+      if (!session.aiderProcess) return;
+      await this.runCommand(sessionId, session, command);
+    }
+  }
+
+  // Aider waits on its question until it gets an answer, so a failed permission request declines it.
+  private askAiderQuestion(sessionId: string, session: SessionState, question: AiderQuestion): void {
+    this.answerAiderQuestion(sessionId, session, question).catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error("Failed to ask the client about an Aider question:", error);
+      this.sendAgentMessage(sessionId, `\n**Could not ask about "${question.question}":** ${message}. Answered no.`);
+      const no = question.options.find((option) => option.key === "n");
+      session.aiderProcess?.answerConfirmation(no?.key ?? "n");
     });
   }
 
+  private async answerAiderQuestion(
+    sessionId: string,
+    session: SessionState,
+    question: AiderQuestion,
+  ): Promise<void> {
+    this.sendThought(sessionId, `Aider is asking: ${formatAiderQuestion(question)}`);
+
+    const options: protocol.PermissionOption[] = question.options.map((option) => ({
+      optionId: option.key,
+      kind: option.kind,
+      name: option === question.defaultOption ? `${option.label} (default)` : option.label,
+    }));
+
+    // Approving an architect proposal lets the editor model change files, so show what it proposed.
+    const architect = isArchitectConfirmation(question) ? session.architect : undefined;
+    const proposal = architect?.proposal.trim() ?? "";
+    const shellCommand = isRunCommandQuestion(question)
+      ? this.findShellCommand(sessionId, session, question)
+      : undefined;
+
+    const permissionRequest = {
+      sessionId,
+      options,
+      toolCall: {
+        toolCallId: shellCommand?.toolCallId ?? `confirm_${Date.now()}`,
+        title: formatAiderQuestion(question),
+        status: "pending",
+        rawInput: shellCommand
+          ? { question: question.raw, command: shellCommand.command }
+          : { question: question.raw },
+        ...(shellCommand
+          ? {
+              kind: "execute",
+              content: [{ type: "content", content: { type: "text", text: formatCommandCall(shellCommand) } }],
+            }
+          : {}),
+        ...(architect
+          ? {
+              kind: "edit",
+              content:
+                proposal.length > 0
+                  ? [{ type: "content", content: { type: "text", text: proposal } }]
+                  : [],
+            }
+          : {}),
+      },
+    } as unknown as protocol.RequestPermissionRequest;
+
+    const result = await this.client.requestPermission(permissionRequest);
+    const selectedOptionId = resolveSelectedOptionId(result, options);
+    const selectedOption = options.find((option) => option.optionId === selectedOptionId);
+
+    if (selectedOptionId) {
+      if (architect) {
+        if (selectedOption?.kind.startsWith("allow")) {
+          architect.phase = "editor";
+          this.sendThought(sessionId, "Proposal approved; Aider's editor model is writing the edits.");
+        } else {
+          architect.phase = "declined";
+        }
+      }
+      if (shellCommand && selectedOption?.kind.startsWith("allow")) {
+        // The agent runs the command, so Aider is told not to.
+        await this.runApprovedCommand(sessionId, session, shellCommand);
+        if (!session.cancelled) {
+          const no = question.options.find((option) => option.key === "n");
+          session.aiderProcess?.answerConfirmation(no?.key ?? "n");
+        }
+        return;
+      }
+      if (shellCommand) {
+        this.declineShellCommand(sessionId, session, shellCommand, selectedOption?.kind);
+      }
+      session.aiderProcess?.answerConfirmation(selectedOptionId);
+      return;
+    }
+
+    session.cancelled = true;
+    await this.interruptAider(sessionId, session);
+  }
+
+  // The subject is what Aider will run; a block the parser did not see still gets a tool call.
+  private findShellCommand(
+    sessionId: string,
+    session: SessionState,
+    question: AiderQuestion,
+  ): ShellCommandCall | undefined {
+    const asked = findAskedCommand(session.shellCommands ?? [], question);
+    if (asked || !question.subject) {
+      return asked;
+    }
+    this.reportShellSuggestion(sessionId, session, { language: "sh", command: question.subject });
+    return findAskedCommand(session.shellCommands ?? [], question);
+  }
+
+  private declineShellCommand(
+    sessionId: string,
+    session: SessionState,
+    call: ShellCommandCall,
+    answer: protocol.PermissionOptionKind | undefined,
+  ): void {
+    // "Skip all" and "Don't ask again" also settle the blocks Aider will not ask about now.
+    const declined =
+      answer === "reject_always"
+        ? (session.shellCommands ?? []).filter((other) => other.status === "suggested")
+        : [call];
+    for (const other of declined) {
+      other.status = "declined";
+      this.updateShellCommand(sessionId, session, other);
+    }
+  }
+
   // Cancel is a fire-and-forget notification
   async cancel(params: protocol.CancelNotification): Promise<void> {
     const session = this.sessions.get(params.sessionId);
     if (session && session.aiderProcess) {
-      try {
-        session.cancelled = true;
-        // Send Control-C to interrupt current operation (not exit)
-        session.aiderProcess.interrupt();
-      } catch (e) {
-        // If interrupt fails, fall back to stopping the process
-        session.aiderProcess.stop();
+      session.cancelled = true;
+      session.runningCommand?.abort();
+      await this.interruptAider(params.sessionId, session);
+    }
+  }
+
+  /**
+   * Stops the current Aider turn, escalating from Ctrl-C to SIGKILL when Aider
+   * does not return to its prompt. A terminated process is respawned with the
+   * session's files and mode.
+   */
+  private async interruptAider(sessionId: string, session: SessionState): Promise<void> {
+    const processManager = session.aiderProcess;
+    if (!processManager) return;
+
+    session.commandQueue?.cancelPending();
+    const result = await processManager.interrupt();
+
+    const message = describeInterruptResult(result);
+    if (message) {
+      this.sendAgentMessage(sessionId, message);
+    }
+
+    const terminated =
+      (result.stage === "terminate" || result.stage === "kill") && result.outcome === "exited";
+    if (
+      terminated &&
+      this.sessions.has(sessionId) &&
+      !session.aiderProcess &&
+      !session.restarting
+    ) {
+      session.restarting = this.respawnAiderProcess(sessionId, session).finally(() => {
+        session.restarting = undefined;
+      });
+    }
+  }
+
+  private scheduleIdleSuspend(sessionId: string, session: SessionState): void {
+    clearTimeout(session.idleTimer);
+    session.idleTimer = undefined;
+    if (this.sessionLimits.idleMs <= 0) return;
+
+    session.idleTimer = setTimeout(() => {
+      session.idleTimer = undefined;
+      this.suspendSession(
+        sessionId,
+        session,
+        `💤 Stopped Aider after ${this.formatDuration(this.sessionLimits.idleMs)} without a prompt to free resources. ${RESUME_NOTICE}`,
+      );
+    }, this.sessionLimits.idleMs);
+    session.idleTimer.unref?.();
+  }
+
+  private suspendSession(sessionId: string, session: SessionState, message: string): void {
+    const processManager = session.aiderProcess;
+    if (!processManager || session.activePrompts || session.restarting) return;
+
+    session.suspended = true;
+    session.commandQueue?.cancelPending();
+    this.sendAgentMessage(sessionId, message);
+    processManager.stop();
+  }
+
+  private resumeSession(sessionId: string, session: SessionState): void {
+    session.suspended = false;
+    this.sendThought(
+      sessionId,
+      "Restarting the suspended Aider process. It does not remember the earlier conversation.",
+    );
+    session.restarting = this.respawnAiderProcess(sessionId, session).finally(() => {
+      session.restarting = undefined;
+    });
+  }
+
+  /**
+   * Keeps the sessions with a running Aider process under the limit by
+   * suspending the least recently used idle one. `starting` is the session
+   * about to get a process, which must not be picked itself.
+   */
+  private makeRoomForSession(starting?: SessionState): void {
+    const { maxSessions } = this.sessionLimits;
+    if (maxSessions <= 0) return;
+
+    const running = [...this.sessions.values()].filter(
+      (candidate) =>
+        candidate !== starting &&
+        !candidate.suspended &&
+        (candidate.aiderProcess !== undefined || candidate.restarting !== undefined),
+    );
+    if (running.length < maxSessions) return;
+
+    let oldest: SessionState | undefined;
+    for (const candidate of running) {
+      if (candidate.activePrompts || candidate.restarting) continue;
+      if (!oldest || candidate.lastActivity < oldest.lastActivity) {
+        oldest = candidate;
       }
     }
+
+    if (!oldest) {
+      throw new Error(
+        `Reached the limit of ${maxSessions} running Aider sessions and all of them are busy.`,
+      );
+    }
+
+    clearTimeout(oldest.idleTimer);
+    oldest.idleTimer = undefined;
+    this.suspendSession(
+      oldest.id,
+      oldest,
+      `\n💤 Stopped Aider to make room for another session; the agent runs at most ${maxSessions} at once. ${RESUME_NOTICE}`,
+    );
+  }
+
+  /**
+   * Stops every session's Aider process, waiting up to timeoutMs for them to
+   * exit, then flushes the notifications still queued for the client.
+   */
+  async shutdown(timeoutMs = DEFAULT_SHUTDOWN_TIMEOUT_MS): Promise<void> {
+    const exits = [...this.sessions.entries()].map(([sessionId, session]) => {
+      // Removing the session first keeps the exit listener from restarting Aider.
+      this.sessions.delete(sessionId);
+      clearTimeout(session.idleTimer);
+      session.commandQueue?.cancelPending();
+      session.runningCommand?.abort();
+      const processManager = session.aiderProcess;
+      if (!processManager) {
+        return Promise.resolve();
+      }
+      const exited = new Promise<void>((resolve) => processManager.once("exit", () => resolve()));
+      processManager.stop();
+      return exited;
+    });
+
+    exits.push(this.pool.drain());
+
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<void>((resolve) => {
+      timer = setTimeout(() => {
+        console.warn(`Aider processes did not exit within ${timeoutMs}ms; shutting down anyway.`);
+        resolve();
+      }, timeoutMs);
+    });
+    await Promise.race([Promise.all(exits), timedOut]);
+    clearTimeout(timer);
+
+    await Promise.all([...this.pendingUpdates]);
   }
 
   async authenticate(params: protocol.AuthenticateRequest): Promise<void> {
@@ -810,8 +1711,7 @@ ${errorStr}`,
 
       for (const filePath of droppedFiles) {
         if (session.cancelled) return;
-        session.aiderProcess?.sendCommand(`${dropCommand} ${filePath}`);
-        await this.waitForTurnCompletion(sessionId, session);
+        await this.runCommand(sessionId, session, `${dropCommand} ${filePath}`);
       }
     }
 
@@ -821,8 +1721,7 @@ ${errorStr}`,
         continue;
       }
 
-      session.aiderProcess?.sendCommand(`${command} ${normalizedPath}`);
-      await this.waitForTurnCompletion(sessionId, session);
+      await this.runCommand(sessionId, session, `${command} ${normalizedPath}`);
     }
 
     // Update session state
@@ -958,7 +1857,7 @@ ${errorStr}`,
   }
 
   private sendThought(sessionId: string, text: string): void {
-    this.client.sessionUpdate({
+    this.notify({
       sessionId,
       update: {
         sessionUpdate: "agent_thought_chunk",
@@ -967,15 +1866,80 @@ ${errorStr}`,
     });
   }
 
+  // Shows each provider failure once per prompt; repeats, such as Aider's retries, only add details.
+  private reportProviderError(sessionId: string, session: SessionState, error: ProviderError): void {
+    if (session.providerError?.kind === error.kind) {
+      session.providerError = mergeProviderErrors(session.providerError, error);
+      return;
+    }
+
+    session.providerError = error;
+    this.sendAgentMessage(sessionId, `\n${formatProviderError(error)}\n`);
+  }
+
+  private applyProviderError(
+    session: SessionState,
+    response: protocol.PromptResponse,
+  ): protocol.PromptResponse {
+    const error = session.providerError;
+    if (!error) {
+      return response;
+    }
+
+    return {
+      ...response,
+      stopReason:
+        response.stopReason === "end_turn" ? providerErrorStopReason(error) : response.stopReason,
+      _meta: { ...response._meta, aiderError: error },
+    };
+  }
+
+  // Sends a one-line usage summary for the prompt and attaches the numbers to
+  // its response; ACP has no usage update yet, so both travel in `_meta`.
+  private reportTurnUsage(
+    sessionId: string,
+    session: SessionState,
+    response: protocol.PromptResponse,
+  ): protocol.PromptResponse {
+    const turn = session.turnUsage;
+    if (!turn || turn.reports === 0) {
+      return response;
+    }
+
+    const aiderUsage = { turn, session: session.usage ?? turn };
+    this.notify({
+      sessionId,
+      update: {
+        sessionUpdate: "agent_message_chunk",
+        content: { type: "text", text: `\n\n${formatUsageSummary(turn, aiderUsage.session)}` },
+      },
+      _meta: { aiderUsage },
+    } as unknown as protocol.SessionNotification);
+
+    return { ...response, _meta: { ...response._meta, aiderUsage } };
+  }
+
   private sendPlanUpdate(sessionId: string, session: SessionState, plan: Plan): void {
     session.currentPlan = plan;
-    this.client.sessionUpdate({
+    this.notifyPlan(sessionId, session, plan);
+  }
+
+  // ACP has no update for queued work, so the depth rides on a repeat of the current plan.
+  private sendQueueDepth(sessionId: string, session: SessionState): void {
+    this.notifyPlan(sessionId, session, session.currentPlan ?? { entries: [] });
+  }
+
+  private notifyPlan(sessionId: string, session: SessionState, plan: Plan): void {
+    this.notify({
       sessionId,
       update: {
         sessionUpdate: "plan",
         entries: plan.entries,
         plan,
       },
+      _meta: {
+        aiderQueueDepth: session.commandQueue?.getDepth() ?? 0,
+      },
     } as unknown as protocol.SessionNotification);
   }
 
@@ -987,45 +1951,53 @@ ${errorStr}`,
       kind: protocol.ToolKind;
       title: string;
       locations?: protocol.ToolCallLocation[];
+      status?: protocol.ToolCallStatus;
+      rawInput?: Record<string, unknown>;
     },
   ): void {
+    const status = details.status ?? "in_progress";
     const state: ToolCallState = {
       id: details.id,
       kind: details.kind,
-      status: "in_progress",
+      status,
       startTime: Date.now(),
     };
     session.activeToolCalls?.set(details.id, state);
 
-    this.client.sessionUpdate({
+    this.notify({
       sessionId,
       update: {
         sessionUpdate: "tool_call",
         toolCallId: details.id,
         title: details.title,
         kind: details.kind,
-        status: "in_progress",
+        status,
         locations: details.locations,
+        rawInput: details.rawInput,
       },
     });
   }
 
-  private completeToolCall(
+  private updateToolCall(
     sessionId: string,
     session: SessionState,
     toolCallId: string,
     update: {
       status: protocol.ToolCallStatus;
       content?: protocol.ToolCallContent[];
+      locations?: protocol.ToolCallLocation[];
+      rawOutput?: Record<string, unknown>;
     },
   ): void {
-    this.client.sessionUpdate({
+    this.notify({
       sessionId,
       update: {
         sessionUpdate: "tool_call_update",
         toolCallId,
         status: update.status,
         content: update.content,
+        locations: update.locations,
+        rawOutput: update.rawOutput,
       },
     });
 
@@ -1036,7 +2008,7 @@ ${errorStr}`,
   }
 
   private sendModeUpdate(sessionId: string, modeId: string): void {
-    this.client.sessionUpdate({
+    this.notify({
       sessionId,
       update: {
         sessionUpdate: "current_mode_update",
@@ -1058,45 +2030,206 @@ ${errorStr}`,
     }
   }
 
-  private waitForTurnCompletion(
+  /**
+   * Queues a command behind anything already sent to this session's Aider
+   * process and waits for its turn (or the watchdog) to finish.
+   */
+  private async runCommand(
     sessionId: string,
     session: SessionState,
+    command: string,
+    promptTurn = false,
   ): Promise<void> {
+    const queue = session.commandQueue;
+    if (!session.aiderProcess || !queue) {
+      return;
+    }
+
+    const depth = queue.getDepth();
+    if (depth > 0) {
+      this.sendThought(sessionId, `Waiting for ${depth} earlier Aider command(s) to finish.`);
+    }
+
+    await this.waitForTurnCompletion(sessionId, session, queue.enqueue(command), promptTurn);
+  }
+
+  // For input that bypasses the queue, such as answers to Aider's questions.
+  private waitForNextTurn(processManager: AiderBackend): Promise<CommandOutcome> {
     return new Promise((resolve) => {
       const cleanup = (): void => {
-        session.aiderProcess?.removeListener("turn_completed", onComplete);
-        session.aiderProcess?.removeListener("exit", onExit);
-        session.aiderProcess?.removeListener("error", onError);
+        processManager.removeListener("turn_completed", onComplete);
+        processManager.removeListener("exit", onExit);
       };
-
-      const onComplete = (): void => {
+      const onComplete = (output: string): void => {
         cleanup();
-        resolve();
+        resolve({ status: "completed", output });
       };
-
-      const onExit = (): void => {
+      const onExit = (message: string): void => {
         cleanup();
-        resolve();
+        resolve({ status: "exited", message });
       };
+      processManager.once("turn_completed", onComplete);
+      processManager.once("exit", onExit);
+    });
+  }
 
-      const onError = (): void => {
-        cleanup();
-        // Report the interruption so the client has context
-        this.sendAgentMessage(
-          sessionId,
-          "⚠️ Aider reported an error while processing the last command.",
-        );
+  private waitForTurnCompletion(
+    sessionId: string,
+    session: SessionState,
+    outcome: Promise<CommandOutcome>,
+    promptTurn = false,
+  ): Promise<void> {
+    const processManager = session.aiderProcess;
+    if (!processManager) {
+      return Promise.resolve();
+    }
+    // Commands of the prompt in progress share its turn budget; any other command gets its own.
+    const turnDeadline = promptTurn ? session.turnDeadline : this.newTurnDeadline();
+
+    return new Promise((resolve) => {
+      let settled = false;
+
+      const finish = (): void => {
+        if (settled) return;
+        settled = true;
+        watchdog.stop();
+        processManager.removeListener("data", onData);
         resolve();
       };
 
-      session.aiderProcess?.once("turn_completed", onComplete);
-      session.aiderProcess?.once("exit", onExit);
-      session.aiderProcess?.once("error", onError);
+      const onData = (): void => {
+        watchdog.activity();
+      };
+
+      const rearm = (trigger: WatchdogTrigger): void => {
+        const deadline = watchdog.rearm(trigger);
+        if (promptTurn && deadline !== undefined) {
+          session.turnDeadline = deadline;
+        }
+      };
+
+      const onTimeout = async (trigger: WatchdogTrigger): Promise<void> => {
+        // Aider is waiting on the user, not stalled.
+        if (processManager.getState() === AiderState.WAITING_FOR_CONFIRMATION) {
+          rearm(trigger);
+          return;
+        }
+
+        const action = await this.requestWatchdogAction(sessionId, trigger);
+        if (settled) return;
+
+        if (action === "wait") {
+          rearm(trigger);
+          return;
+        }
+
+        session.cancelled = true;
+        session.commandQueue?.cancelPending();
+        if (action === "kill") {
+          const ownsSession = session.aiderProcess === processManager;
+          this.sendAgentMessage(sessionId, "🛑 Killed the unresponsive Aider process.");
+          processManager.stop();
+          finish();
+          if (ownsSession && this.sessions.has(sessionId)) {
+            session.restarting = this.respawnAiderProcess(sessionId, session).finally(() => {
+              session.restarting = undefined;
+            });
+          }
+          return;
+        }
+
+        this.sendAgentMessage(sessionId, "⚠️ Interrupting the unresponsive Aider command.");
+        this.interruptStalledTurn(sessionId, session);
+        finish();
+      };
+
+      // Without an answer from the client, the stalled command is interrupted.
+      const onWatchdogError = (error: unknown): void => {
+        console.error("Turn watchdog failed:", error);
+        if (settled) return;
+        const message = error instanceof Error ? error.message : String(error);
+        this.sendAgentMessage(sessionId, `\n**Could not ask whether to keep waiting:** ${message}. Interrupting Aider.`);
+        session.cancelled = true;
+        this.interruptStalledTurn(sessionId, session);
+        finish();
+      };
+
+      const watchdog = new TurnWatchdog(
+        this.turnTimeouts,
+        (trigger) => {
+          onTimeout(trigger).catch(onWatchdogError);
+        },
+        turnDeadline,
+      );
+
+      // Report the turn's edits before the prompt returns.
+      void outcome.then(() => session.editsReported).then(finish);
+      processManager.on("data", onData);
+      watchdog.start();
+    });
+  }
+
+  private interruptStalledTurn(sessionId: string, session: SessionState): void {
+    this.interruptAider(sessionId, session).catch((error: unknown) => {
+      console.error("Failed to interrupt Aider:", error);
+    });
+  }
+
+  private newTurnDeadline(): number | undefined {
+    return this.turnTimeouts.turnMs > 0 ? Date.now() + this.turnTimeouts.turnMs : undefined;
+  }
+
+  private async requestWatchdogAction(
+    sessionId: string,
+    trigger: WatchdogTrigger,
+  ): Promise<"wait" | "interrupt" | "kill"> {
+    const description = {
+      turn: `The turn has been running for over ${this.formatDuration(this.turnTimeouts.turnMs)}.`,
+      command: `The current Aider command has been running for over ${this.formatDuration(this.turnTimeouts.commandMs)}.`,
+      idle: `Aider has printed nothing for ${this.formatDuration(this.turnTimeouts.idleMs)}.`,
+    }[trigger];
+
+    this.sendThought(sessionId, description);
+
+    const options: protocol.PermissionOption[] = [
+      { optionId: "wait", kind: "allow_once", name: "Keep waiting" },
+      { optionId: "interrupt", kind: "reject_once", name: "Interrupt Aider" },
+      { optionId: "kill", kind: "reject_always", name: "Kill and restart Aider" },
+    ];
+
+    const permissionRequest = {
+      sessionId,
+      options,
+      toolCall: {
+        toolCallId: `watchdog_${Date.now()}`,
+        title: `${description} Keep waiting?`,
+        status: "pending",
+      },
+    } as unknown as protocol.RequestPermissionRequest;
+
+    const result = await this.client.requestPermission(permissionRequest);
+    const selected = resolveSelectedOptionId(result, options);
+    if (selected === "wait" || selected === "kill") {
+      return selected;
+    }
+    return "interrupt";
+  }
+
+  private formatDuration(durationMs: number): string {
+    const seconds = Math.round(durationMs / 1000);
+    return seconds >= 60 && seconds % 60 === 0 ? `${seconds / 60} min` : `${seconds}s`;
+  }
+
+  private notify(notification: protocol.SessionNotification): void {
+    const update = Promise.resolve(this.client.sessionUpdate(notification)).catch((error) => {
+      console.error("Failed to send session update:", error);
     });
+    this.pendingUpdates.add(update);
+    void update.finally(() => this.pendingUpdates.delete(update));
   }
 
   private sendAgentMessage(sessionId: string, text: string): void {
-    this.client.sessionUpdate({
+    this.notify({
       sessionId,
       update: {
         sessionUpdate: "agent_message_chunk",
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { AiderState } from "./aider-backend.js";
+import { ScriptedAiderBackend, type AiderTranscript } from "./scripted-backend.js";
+
+const transcript: AiderTranscript = {
+  events: [
+    { type: "stdout", data: "> " },
+    { type: "input" },
+    { type: "stdout", data: "thinking...", delayMs: 5_000 },
+    { type: "stdout", data: "done\n> " },
+    { type: "input" },
+  ],
+};
+
+async function startBusyBackend(ignoredSignals: NodeJS.Signals[] = []): Promise<ScriptedAiderBackend> {
+  const backend = new ScriptedAiderBackend(transcript, {
+    ignoredSignals,
+    interruptPolicy: { promptMs: 150, exitMs: 20 },
+    turnFraming: { settleMs: 50 },
+  });
+  const ready = new Promise((resolve) => backend.once("ready", resolve));
+  backend.start();
+  await ready;
+  backend.sendCommand("slow request");
+  return backend;
+}
+
+describe("AiderStreamBackend.interrupt", () => {
+  it("stops at the first Ctrl-C when Aider returns to its prompt", async () => {
+    const backend = await startBusyBackend();
+
+    await expect(backend.interrupt()).resolves.toEqual({ stage: "interrupt", outcome: "ready" });
+    expect(backend.signals).toEqual(["SIGINT"]);
+    expect(backend.getState()).toBe(AiderState.READY);
+    backend.stop();
+  });
+
+  it("sends a second Ctrl-C when the first one is ignored", async () => {
+    const backend = await startBusyBackend(["SIGINT"]);
+
+    await expect(backend.interrupt()).resolves.toEqual({
+      stage: "second_interrupt",
+      outcome: "ready",
+    });
+    expect(backend.signals).toEqual(["SIGINT", "SIGINT"]);
+    backend.stop();
+  });
+
+  it("escalates to SIGTERM and SIGKILL and reports the exit as expected", async () => {
+    const backend = await startBusyBackend(["SIGINT", "SIGINT", "SIGTERM"]);
+    const exit = new Promise<unknown[]>((resolve) =>
+      backend.once("exit", (...args: unknown[]) => resolve(args)),
+    );
+
+    await expect(backend.interrupt()).resolves.toEqual({ stage: "kill", outcome: "exited" });
+    expect(backend.signals).toEqual(["SIGINT", "SIGINT", "SIGTERM", "SIGKILL"]);
+    expect((await exit)[1]).toMatchObject({ signal: "SIGKILL", expected: true });
+  });
+
+  it("reports a process that survives SIGKILL as unresponsive", async () => {
+    const backend = await startBusyBackend(["SIGINT", "SIGINT", "SIGTERM", "SIGKILL"]);
+
+    await expect(backend.interrupt()).resolves.toEqual({ stage: "kill", outcome: "unresponsive" });
+    backend.stop();
+  });
+
+  it("does not signal an idle Aider and shares a sequence that is already running", async () => {
+    const backend = await startBusyBackend(["SIGINT"]);
+
+    const first = backend.interrupt();
+    const second = backend.interrupt();
+    expect(second).toBe(first);
+    await first;
+
+    await expect(backend.interrupt()).resolves.toEqual({ stage: null, outcome: "ready" });
+    expect(backend.signals).toEqual(["SIGINT", "SIGINT"]);
+    backend.stop();
+  });
+
+  it("sends Ctrl-C when a reply stalls on a line that looks like the prompt", async () => {
+    const backend = new ScriptedAiderBackend(
+      {
+        events: [
+          { type: "stdout", data: "> " },
+          { type: "input" },
+          { type: "stdout", data: "The docs say:\n\n> " },
+          { type: "stdout", data: "Run the migration first.\n", delayMs: 5_000 },
+        ],
+      },
+      { interruptPolicy: { promptMs: 150, exitMs: 20 }, turnFraming: { settleMs: 50 } },
+    );
+    const ready = new Promise((resolve) => backend.once("ready", resolve));
+    backend.start();
+    await ready;
+    backend.sendCommand("slow request");
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    await expect(backend.interrupt()).resolves.toEqual({ stage: "interrupt", outcome: "ready" });
+    expect(backend.signals).toEqual(["SIGINT"]);
+    backend.stop();
+  });
+});
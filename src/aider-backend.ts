@@ -0,0 +1,343 @@
+import { EventEmitter } from "events";
+import { AiderQuestion, detectAiderQuestion } from "./question-parser.js";
+import { AiderLaunchProfile } from "./launch-profile.js";
+import { encodeAiderInput } from "./prompt-parser.js";
+import {
+  DEFAULT_TURN_FRAMING,
+  TurnFramingOptions,
+  buildPromptMatcher,
+  endsWithAiderPrompt,
+  expectsModelReply,
+  hasUsageReport,
+} from "./turn-framing.js";
+
+export enum AiderState {
+  STARTING,
+  WAITING_FOR_CONFIRMATION,
+  READY,
+  PROCESSING,
+}
+
+export interface AiderExitDetails {
+  code: number | null;
+  signal: NodeJS.Signals | null;
+  // True when the exit was requested through stop().
+  expected: boolean;
+}
+
+export interface InterruptPolicy {
+  // How long to wait for the prompt after each Ctrl-C. Keep this above Aider's
+  // 2s window, or the second Ctrl-C makes Aider exit instead of interrupting.
+  promptMs: number;
+  // How long to wait for the process to exit after SIGTERM and after SIGKILL.
+  exitMs: number;
+}
+
+export const DEFAULT_INTERRUPT_POLICY: InterruptPolicy = {
+  promptMs: 3000,
+  exitMs: 3000,
+};
+
+export type InterruptStage = "interrupt" | "second_interrupt" | "terminate" | "kill";
+
+export interface InterruptResult {
+  // The last step that had to be taken; null when Aider was already idle.
+  stage: InterruptStage | null;
+  // "unresponsive" means the process outlived even SIGKILL.
+  outcome: "ready" | "exited" | "unresponsive";
+}
+
+/**
+ * What the agent needs from an Aider instance. Events:
+ * - "data" (chunk: string): stdout/stderr output, echoed commands removed
+ * - "error" (message: string): stderr output or a process failure
+ * - "confirmation_required" (question: AiderQuestion)
+ * - "turn_completed" (turnOutput: string) followed by "ready"
+ * - "exit" (message: string, details: AiderExitDetails)
+ */
+export interface AiderBackend extends EventEmitter {
+  pendingConfirmation: string | null;
+  pendingQuestion: AiderQuestion | null;
+  getState(): AiderState;
+  start(): void;
+  sendCommand(command: string): void;
+  answerConfirmation(answer: string): void;
+  // Escalates from Ctrl-C to SIGKILL until the current turn is stopped.
+  interrupt(): Promise<InterruptResult>;
+  stop(): void;
+}
+
+export interface AiderBackendOptions {
+  workingDir: string;
+  model: string;
+  launchProfile?: AiderLaunchProfile;
+  interruptPolicy?: Partial<InterruptPolicy>;
+}
+
+export type AiderBackendFactory = (options: AiderBackendOptions) => AiderBackend;
+
+/**
+ * Turns Aider's raw stdout/stderr into backend events: filters command echoes,
+ * detects questions and decides when a turn is complete. Subclasses provide
+ * the transport (a child process, a recorded transcript, ...).
+ */
+export abstract class AiderStreamBackend extends EventEmitter implements AiderBackend {
+  private buffer: string = "";
+  private turnBuffer: string = "";
+  private state: AiderState = AiderState.STARTING;
+  public pendingConfirmation: string | null = null;
+  public pendingQuestion: AiderQuestion | null = null;
+  private lastCommand: string | null = null;
+  protected stopRequested = false;
+  private readonly promptMatcher: RegExp;
+  private readonly settleMs: number;
+  private readonly stallMs: number;
+  // Set while the model's reply is still streaming, until Aider's token report.
+  private awaitingReply = false;
+  private settleTimer: NodeJS.Timeout | null = null;
+  protected readonly interruptPolicy: InterruptPolicy;
+  private interrupting: Promise<InterruptResult> | null = null;
+
+  constructor(
+    framing: Partial<TurnFramingOptions> = {},
+    interruptPolicy: Partial<InterruptPolicy> = {},
+  ) {
+    super();
+    this.promptMatcher = buildPromptMatcher(
+      framing.promptPrefixes ?? DEFAULT_TURN_FRAMING.promptPrefixes,
+    );
+    this.settleMs = framing.settleMs ?? DEFAULT_TURN_FRAMING.settleMs;
+    this.stallMs = framing.stallMs ?? DEFAULT_TURN_FRAMING.stallMs;
+    this.interruptPolicy = { ...DEFAULT_INTERRUPT_POLICY, ...interruptPolicy };
+  }
+
+  public getState(): AiderState {
+    return this.state;
+  }
+
+  public abstract start(): void;
+  public abstract stop(): void;
+  protected abstract isRunning(): boolean;
+  protected abstract writeInput(text: string): void;
+  protected abstract sendSignal(signal: NodeJS.Signals): void;
+
+  protected handleOutput(data: Buffer | string): void {
+    let chunk = data.toString();
+
+    // More output means the prompt we saw (if any) was part of the response.
+    this.cancelPendingTurnCompletion();
+
+    // Filter out the echoed command lines that start with '> '
+    if (this.lastCommand) {
+      // Create a regex to match lines that start with '> ' followed by the exact input
+      // as written (multi-line input is echoed in its {...} wrapper)
+      // We need to escape special regex characters in the command
+      const escapedCommand = this.lastCommand.replace(
+        /[.*+?^${}()|[\]\\]/g,
+        "\\$&",
+      );
+      const echoedRegex = new RegExp(`^> ${escapedCommand}[\\r\\n]*`, "gm");
+
+      // Remove any instances of the echoed command from the chunk
+      const newChunk = chunk.replace(echoedRegex, "");
+      if (newChunk.length !== chunk.length) {
+        chunk = newChunk;
+        this.lastCommand = null;
+      }
+
+      // If chunk is empty after filtering, return early
+      if (chunk.length === 0) {
+        return;
+      }
+    }
+
+    this.buffer += chunk;
+    this.turnBuffer += chunk;
+    this.emit("data", chunk);
+    if (this.awaitingReply && hasUsageReport(this.turnBuffer)) {
+      this.awaitingReply = false;
+    }
+
+    const question =
+      this.state !== AiderState.WAITING_FOR_CONFIRMATION
+        ? detectAiderQuestion(this.buffer)
+        : null;
+
+    if (question) {
+      this.state = AiderState.WAITING_FOR_CONFIRMATION;
+      this.pendingConfirmation = question.question;
+      this.pendingQuestion = question;
+      this.emit("confirmation_required", question);
+      this.buffer = "";
+    } else if (endsWithAiderPrompt(this.buffer, this.promptMatcher)) {
+      this.settleTimer = setTimeout(
+        () => this.completeTurn(),
+        this.awaitingReply ? this.stallMs : this.settleMs,
+      );
+    }
+  }
+
+  private completeTurn(): void {
+    this.settleTimer = null;
+    this.awaitingReply = false;
+    this.emit("turn_completed", this.turnBuffer);
+    this.state = AiderState.READY;
+    this.emit("ready");
+    this.buffer = "";
+    this.turnBuffer = "";
+  }
+
+  protected cancelPendingTurnCompletion(): void {
+    if (this.settleTimer) {
+      clearTimeout(this.settleTimer);
+      this.settleTimer = null;
+    }
+  }
+
+  protected handleError(data: Buffer | string): void {
+    const errorChunk = data.toString();
+    if (errorChunk.includes("Input is not a terminal")) {
+      // Suppress this specific, harmless warning
+      return;
+    }
+    this.emit("data", errorChunk);
+    this.emit("error", errorChunk);
+  }
+
+  protected handleClose(code: number | null, signal: NodeJS.Signals | null): void {
+    this.cancelPendingTurnCompletion();
+    const details: AiderExitDetails = {
+      code,
+      signal,
+      expected: this.stopRequested,
+    };
+    this.emit(
+      "exit",
+      signal
+        ? `Aider process exited with signal ${signal}`
+        : `Aider process exited with code ${code ?? "unknown"}`,
+      details,
+    );
+  }
+
+  public sendCommand(command: string): void {
+    if (!this.isRunning()) {
+      this.emit("error", "Aider process is not running.");
+      return;
+    }
+    this.flushPendingTurnCompletion();
+    this.state = AiderState.PROCESSING;
+    this.turnBuffer = "";
+    this.buffer = "";
+    this.awaitingReply = expectsModelReply(command);
+    this.lastCommand = encodeAiderInput(command);
+    this.writeInput(`${this.lastCommand}\n`);
+  }
+
+  // Answers belong to the turn that asked the question, so its output is kept.
+  public answerConfirmation(answer: string): void {
+    if (this.state !== AiderState.WAITING_FOR_CONFIRMATION) return;
+    if (!this.isRunning()) {
+      this.emit("error", "Aider process is not running.");
+      return;
+    }
+    this.state = AiderState.PROCESSING;
+    this.pendingConfirmation = null;
+    this.pendingQuestion = null;
+    this.buffer = "";
+    this.lastCommand = answer;
+    this.writeInput(`${answer}\n`);
+  }
+
+  public interrupt(): Promise<InterruptResult> {
+    if (!this.interrupting) {
+      this.interrupting = this.escalateInterrupt().finally(() => {
+        this.interrupting = null;
+      });
+    }
+    return this.interrupting;
+  }
+
+  private async escalateInterrupt(): Promise<InterruptResult> {
+    if (!this.isRunning()) {
+      return { stage: null, outcome: "exited" };
+    }
+    // A Ctrl-C at the prompt only arms Aider's "^C again to exit". Before the
+    // token report the "prompt" may be a stalled quote line, so stop the reply.
+    if (this.settleTimer && !this.awaitingReply) {
+      this.flushPendingTurnCompletion();
+    }
+    this.cancelPendingTurnCompletion();
+    this.awaitingReply = false;
+    if (this.state === AiderState.READY) {
+      return { stage: null, outcome: "ready" };
+    }
+
+    const steps: Array<[InterruptStage, NodeJS.Signals, number]> = [
+      ["interrupt", "SIGINT", this.interruptPolicy.promptMs],
+      ["second_interrupt", "SIGINT", this.interruptPolicy.promptMs],
+      ["terminate", "SIGTERM", this.interruptPolicy.exitMs],
+      ["kill", "SIGKILL", this.interruptPolicy.exitMs],
+    ];
+
+    for (const [stage, signal, waitMs] of steps) {
+      if (!this.isRunning()) {
+        return { stage, outcome: "exited" };
+      }
+      if (signal !== "SIGINT") {
+        this.stopRequested = true;
+      }
+      const settled = this.waitForPromptOrExit(waitMs, signal === "SIGINT");
+      this.sendSignal(signal);
+      const outcome = await settled;
+      if (outcome !== "timeout") {
+        this.reconcileAfterInterrupt();
+        return { stage, outcome };
+      }
+    }
+
+    return { stage: "kill", outcome: "unresponsive" };
+  }
+
+  private waitForPromptOrExit(
+    timeoutMs: number,
+    acceptPrompt: boolean,
+  ): Promise<"ready" | "exited" | "timeout"> {
+    return new Promise((resolve) => {
+      const finish = (outcome: "ready" | "exited" | "timeout"): void => {
+        clearTimeout(timer);
+        this.removeListener("ready", onReady);
+        this.removeListener("exit", onExit);
+        resolve(outcome);
+      };
+      const onReady = (): void => {
+        if (acceptPrompt) finish("ready");
+      };
+      const onExit = (): void => finish("exited");
+      const timer = setTimeout(() => finish("timeout"), timeoutMs);
+      this.on("ready", onReady);
+      this.once("exit", onExit);
+    });
+  }
+
+  // Whatever Aider was asking or echoing belongs to the turn that was stopped.
+  private reconcileAfterInterrupt(): void {
+    this.pendingConfirmation = null;
+    this.pendingQuestion = null;
+    this.lastCommand = null;
+    this.awaitingReply = false;
+    this.buffer = "";
+    if (!this.isRunning()) {
+      this.cancelPendingTurnCompletion();
+      this.turnBuffer = "";
+    }
+  }
+
+  // Writing input proves Aider was blocked on the prompt we saw.
+  private flushPendingTurnCompletion(): void {
+    if (this.settleTimer) {
+      this.cancelPendingTurnCompletion();
+      this.completeTurn();
+    }
+  }
+}
@@ -44,6 +44,18 @@ describe("parseAiderOutput", () => {
       const output = "Tokens: 500 sent, 200 received";
       const result = parseAiderOutput(output);
       expect(result.info.chatTokens).toBe("500 sent, 200 received");
+      expect(result.info.usage).toMatchObject({ sent: 500, received: 200 });
+    });
+
+    it("attaches the costs on the token line to the usage", () => {
+      const output = "Tokens: 2.5k sent, 105 received. Cost: $0.0085 message, $0.02 session.";
+      const result = parseAiderOutput(output);
+      expect(result.info.usage).toMatchObject({
+        sent: 2_500,
+        received: 105,
+        messageCost: 0.0085,
+        sessionCost: 0.02,
+      });
     });
 
     it("extracts cost info", () => {
@@ -63,6 +75,29 @@ describe("parseAiderOutput", () => {
       const result = parseAiderOutput(output);
       expect(result.info.errors).toContain("Error: File not found");
     });
+
+    it("leaves reply sentences that start with 'error' or 'warning' in the reply", () => {
+      const output = "Error handling is missing here.\nWarning signs: the retries never stop.\n";
+      const result = parseAiderOutput(output);
+      expect(result.info.errors).toEqual([]);
+      expect(result.info.warnings).toEqual([]);
+      expect(result.segments).toEqual([{ kind: "markdown", text: output }]);
+    });
+
+    it("classifies provider failures instead of listing them as errors", () => {
+      const output = [
+        "Model gemini/gemini-2.5-flash: Missing these environment variables:",
+        "- GEMINI_API_KEY",
+        "litellm.AuthenticationError: GeminiException - API key not valid.",
+      ].join("\n");
+      const result = parseAiderOutput(output);
+      expect(result.info.providerError).toMatchObject({
+        kind: "authentication",
+        missingKeys: ["GEMINI_API_KEY"],
+      });
+      expect(result.info.errors).toEqual([]);
+      expect(result.classifiedMessages.map((msg) => msg.type)).toContain("provider_error");
+    });
   });
 
   describe("whole file format parsing", () => {
@@ -106,6 +141,59 @@ from flask import Flask
       expect(result.editBlocks[0].newText).toContain("import math");
     });
 
+    it("returns every SEARCH/REPLACE block for a file", () => {
+      const output = `mathweb/flask/app.py
+\`\`\`
+<<<<<<< SEARCH
+from flask import Flask
+=======
+import math
+from flask import Flask
+>>>>>>> REPLACE
+<<<<<<< SEARCH
+    return str(factorial(n))
+=======
+    return str(math.factorial(n))
+>>>>>>> REPLACE
+\`\`\``;
+
+      const result = parseAiderOutput(output);
+      expect(result.editBlocks).toEqual([
+        {
+          format: "diff",
+          path: "mathweb/flask/app.py",
+          oldText: "from flask import Flask",
+          newText: "import math\nfrom flask import Flask",
+        },
+        {
+          format: "diff",
+          path: "mathweb/flask/app.py",
+          oldText: "    return str(factorial(n))",
+          newText: "    return str(math.factorial(n))",
+        },
+      ]);
+    });
+
+    it("returns every block of a diff-fenced edit", () => {
+      const output = `\`\`\`
+hello.py
+<<<<<<< SEARCH
+a = 1
+=======
+a = 2
+>>>>>>> REPLACE
+<<<<<<< SEARCH
+b = 1
+=======
+b = 2
+>>>>>>> REPLACE
+\`\`\``;
+
+      const result = parseAiderOutput(output);
+      expect(result.editBlocks.map((block) => block.oldText)).toEqual(["a = 1", "b = 1"]);
+      expect(result.editBlocks.map((block) => block.newText)).toEqual(["a = 2", "b = 2"]);
+    });
+
     it("parses diff-fenced format", () => {
       const output = `\`\`\`
 mathweb/flask/app.py
@@ -143,6 +231,148 @@ from flask import Flask
       expect(result.editBlocks[0].oldText).toContain("class MathWeb:");
       expect(result.editBlocks[0].newText).toContain("import sympy");
     });
+
+    it("produces one edit per file with its first changed line", () => {
+      const output = `\`\`\`diff
+--- a/src/one.ts
++++ b/src/one.ts
+@@ -4,2 +4,2 @@
+ const a = 1;
+-const b = 2;
++const b = 3;
+@@ -20,1 +20,1 @@
+-export { a };
++export { a, b };
+--- /dev/null
++++ b/src/two.ts
+@@ -0,0 +1 @@
++export const two = 2;
+\`\`\``;
+
+      const result = parseAiderOutput(output);
+      expect(result.editBlocks).toHaveLength(2);
+      expect(result.editBlocks[0]).toMatchObject({
+        format: "udiff",
+        path: "src/one.ts",
+        oldText: "const a = 1;\nconst b = 2;\nexport { a };",
+        newText: "const a = 1;\nconst b = 3;\nexport { a, b };",
+        line: 4,
+      });
+      expect(result.editBlocks[0].hunks).toHaveLength(2);
+      expect(result.editBlocks[1]).toMatchObject({
+        path: "src/two.ts",
+        newText: "export const two = 2;",
+        line: 1,
+      });
+      expect(result.editBlocks[1].oldText).toBeUndefined();
+    });
+  });
+
+  describe("reply reconstruction", () => {
+    it("keeps notes, blockquotes and code fences in the order Aider wrote them", () => {
+      const output = [
+        "Note: the build runs `astro check` first.",
+        "",
+        "> Cannot find module 'astro:content'",
+        "",
+        "```ts",
+        'import { defineCollection } from "astro:content";',
+        "```",
+        "",
+        "That error goes away once `npx astro sync` has run.",
+        "",
+      ].join("\n");
+      const result = parseAiderOutput(output);
+      expect(result.userMessage).toBe(output);
+      expect(result.segments).toEqual([{ kind: "markdown", text: output }]);
+      expect(result.codeBlocks).toEqual([
+        { path: "ts", content: 'import { defineCollection } from "astro:content";' },
+      ]);
+      expect(result.info.errors).toEqual([]);
+    });
+
+    it("keeps prose that starts like an Aider status line in the reply", () => {
+      const output = [
+        "Unable to reproduce the crash locally.",
+        "Read-only: this is fine, nothing writes to it.",
+        "Added a retry to the loader.",
+        "",
+      ].join("\n");
+      const result = parseAiderOutput(output);
+      expect(result.segments).toEqual([{ kind: "markdown", text: output }]);
+      expect(result.classifiedMessages.map((message) => message.type)).toEqual([
+        "content",
+        "content",
+        "content",
+      ]);
+    });
+
+    it("cuts edits out of the reply where they appeared", () => {
+      const output = [
+        "Here is the change:",
+        "",
+        "app.py",
+        "```",
+        "<<<<<<< SEARCH",
+        "a = 1",
+        "=======",
+        "a = 2",
+        ">>>>>>> REPLACE",
+        "```",
+        "",
+        "That is all.",
+        "",
+      ].join("\n");
+      const result = parseAiderOutput(output);
+      expect(result.segments).toEqual([
+        { kind: "markdown", text: "Here is the change:\n\n" },
+        { kind: "edit", blocks: result.editBlocks },
+        { kind: "markdown", text: "\nThat is all.\n" },
+      ]);
+      expect(result.editBlocks).toHaveLength(1);
+    });
+
+    it("drops Aider's start-up lines, usage and trailing prompt", () => {
+      const output = [
+        "Aider v0.86.1",
+        "Main model: anthropic/claude-sonnet-4-20250514 with architect edit format",
+        "Editor model: anthropic/claude-sonnet-4-20250514 with editor-diff edit format",
+        "Added README.md to the chat.",
+        "Tokens: 1.2k sent, 30 received.",
+        "architect> ",
+      ].join("\n");
+      const result = parseAiderOutput(output);
+      expect(result.userMessage).toBe("");
+      expect(result.segments).toEqual([]);
+      expect(result.info.editorModel).toBe(
+        "anthropic/claude-sonnet-4-20250514 with editor-diff edit format",
+      );
+    });
+
+    it("drops the file name Aider prints before asking to add it", () => {
+      const output = "astro.config.mjs\nAdd file to the chat? (Y)es/(N)o/(D)on't ask again [Yes]: ";
+      const result = parseAiderOutput(output);
+      expect(result.userMessage).toBe("");
+      expect(result.prompts).toHaveLength(1);
+    });
+  });
+
+  describe("shell command suggestions", () => {
+    it("cuts shell blocks out of the reply as suggested commands", () => {
+      const output = "Generate the types:\n\n```bash\nnpx astro sync\n```\n\nThen build.\n";
+      const result = parseAiderOutput(output);
+      expect(result.shellCommands).toEqual([{ language: "bash", command: "npx astro sync" }]);
+      expect(result.codeBlocks).toEqual([]);
+      expect(result.segments.map((segment) => segment.kind)).toEqual(["markdown", "shell", "markdown"]);
+      expect(result.userMessage).toBe("Generate the types:\n\n\nThen build.\n");
+    });
+
+    it("drops the commands Aider repeats before asking to run them", () => {
+      const output = "\nnpm install  \nnpm run build\nRun shell commands? (Y)es/(N)o/(D)on't ask again [Yes]: ";
+      const result = parseAiderOutput(output);
+      expect(result.userMessage.trim()).toBe("");
+      expect(result.prompts).toHaveLength(1);
+    });
   });
 
   describe("prompt detection", () => {
@@ -228,8 +458,9 @@ describe("formatAiderInfo", () => {
     expect(result).toContain("**Weak Model**: gpt-3.5");
     expect(result).toContain("**Repo**: /path/to/repo");
     expect(result).toContain("**Repo-map**: using tokens");
-    expect(result).toContain("**Tokens**: 500");
-    expect(result).toContain("**Cost**: $0.10");
+    // Usage is summarized by the agent at the end of the turn instead.
+    expect(result).not.toContain("**Tokens**");
+    expect(result).not.toContain("**Cost**");
     expect(result).toContain("⚠️ warning 1");
     expect(result).toContain("❌ error 1");
   });
@@ -283,7 +514,11 @@ describe("classifyMessage", () => {
       expect(classifyMessage("Error: file not found").type).toBe("error");
       expect(classifyMessage("ERROR: invalid syntax").type).toBe("error");
       expect(classifyMessage("Can't initialize git repo in /path").type).toBe("error");
-      expect(classifyMessage("Unable to read file").type).toBe("error");
+    });
+
+    it("leaves prose that starts with the same words as content", () => {
+      expect(classifyMessage("Unable to reproduce this without the config.").type).toBe("content");
+      expect(classifyMessage("Error handling is missing here.").type).toBe("content");
     });
   });
 
@@ -302,7 +537,12 @@ describe("classifyMessage", () => {
       expect(classifyMessage("Dropping config.json from the chat").type).toBe("file_action");
       expect(classifyMessage("Add helper.ts to the chat?").type).toBe("file_action");
       expect(classifyMessage("Create new file src/index.ts?").type).toBe("file_action");
-      expect(classifyMessage("Read-only: docs/README.md").type).toBe("file_action");
+      expect(classifyMessage("Added docs/README.md to read-only files.").type).toBe("file_action");
+    });
+
+    it("leaves prose about the chat as content", () => {
+      expect(classifyMessage("Read-only: this is fine").type).toBe("content");
+      expect(classifyMessage("Added a retry so nothing is lost from the chat").type).toBe("content");
     });
   });
 
@@ -322,8 +562,11 @@ describe("classifyMessage", () => {
     it("classifies progress/token messages", () => {
       expect(classifyMessage("Tokens: 500 sent, 200 received").type).toBe("progress");
       expect(classifyMessage("Cost: $0.05 total").type).toBe("progress");
-      expect(classifyMessage("Message sent 1500 tokens to API").type).toBe("progress");
-      expect(classifyMessage("Response received 800 tokens").type).toBe("progress");
+    });
+
+    it("leaves prose about tokens and cost as content", () => {
+      expect(classifyMessage("Message sent 1500 tokens to API").type).toBe("content");
+      expect(classifyMessage("Cost: it depends on the plan.").type).toBe("content");
     });
   });
 
@@ -11,15 +11,30 @@ import {
 } from "typescript-parsec";
 import * as path from "node:path";
 import { testSlashCommandParser } from "./prompt-parser.js";
+import { parseUnifiedDiff, type DiffHunk } from "./udiff-parser.js";
+import { parseUsageReport, type UsageReport } from "./usage.js";
+import { isSubjectQuestion } from "./question-parser.js";
+import { commandLines, isShellLanguage, type ShellCommand } from "./shell-commands.js";
+import {
+  classifyProviderError,
+  mergeProviderErrors,
+  type ProviderError,
+} from "./provider-errors.js";
 
 export interface AiderInfo {
   version?: string;
   mainModel?: string;
   weakModel?: string;
+  // The model that applies an architect's proposal.
+  editorModel?: string;
   gitRepo?: string;
   repoMap?: string;
   chatTokens?: string;
   cost?: string;
+  // Token counts and costs from the "Tokens:" and "Cost:" lines.
+  usage?: UsageReport;
+  // Rate limits, bad keys and similar failures of the model provider.
+  providerError?: ProviderError;
   warnings: string[];
   errors: string[];
 }
@@ -35,6 +50,9 @@ export interface EditBlock {
   path: string;
   oldText?: string;
   newText: string;
+  // Unified diffs keep their hunks and where the first one starts (1-based).
+  hunks?: DiffHunk[];
+  line?: number;
 }
 
 export interface CodeBlock {
@@ -49,6 +67,7 @@ export type AiderMessageType =
   | "file_action"    // File added/dropped messages
   | "warning"        // Warnings
   | "error"          // Errors
+  | "provider_error" // Failures of the model provider (rate limits, keys, ...)
   | "prompt"         // Y/N prompts
   | "content"        // Main content/response
   | "command_echo";  // Echo of user command
@@ -59,11 +78,25 @@ export interface ClassifiedMessage {
   raw: string;
 }
 
+/**
+ * A piece of Aider's reply in the order it was written. Markdown is kept
+ * exactly as printed, code fences included; edits and suggested shell
+ * commands are cut out where they appeared, since they are reported as tool
+ * calls. A shell block keeps its text for when it is shown as Markdown after all.
+ */
+export type OutputSegment =
+  | { kind: "markdown"; text: string }
+  | { kind: "edit"; blocks: EditBlock[] }
+  | { kind: "shell"; command: ShellCommand; text: string };
+
 export interface ParsedAiderOutput {
   info: AiderInfo;
+  // The markdown segments joined together.
   userMessage: string;
+  segments: OutputSegment[];
   editBlocks: EditBlock[];
   codeBlocks: CodeBlock[];
+  shellCommands: ShellCommand[];
   prompts: string[];
   classifiedMessages: ClassifiedMessage[];
 }
@@ -146,6 +179,22 @@ segmentRule.setPattern(
 const segmentsRule = rule<AiderTokenKind, Segment[]>();
 segmentsRule.setPattern(rep_sc(segmentRule));
 
+// Aider's input prompt, e.g. "diff-fenced> " or "architect multi> ".
+const AIDER_PROMPT_LINE = /^(?:[\w-]+(?: multi)?)?> ?[ \t]*$/;
+
+// A file name as Aider shows it in chat actions: one word with a dot or slash.
+const CHROME_PATH = String.raw`\S*[./]\S*`;
+
+const CHROME_MESSAGE_TYPES = new Set<AiderMessageType>([
+  "info",
+  "progress",
+  "file_action",
+  "warning",
+  "error",
+  "provider_error",
+  "prompt",
+]);
+
 /**
  * Classifies a single line of Aider output into a message type for ACP formatting.
  */
@@ -173,12 +222,16 @@ export function classifyMessage(line: string): ClassifiedMessage {
     return { type: "prompt", text: trimmed, raw };
   }
 
+  if (classifyProviderError(trimmed)) {
+    return { type: "provider_error", text: trimmed, raw };
+  }
+
+  // Only the exact forms Aider prints; a reply can start with the same words.
   // Errors
   if (
     trimmed.startsWith("Error:") ||
     trimmed.startsWith("ERROR:") ||
-    trimmed.startsWith("Can't initialize git repo") ||
-    trimmed.startsWith("Unable to")
+    trimmed.startsWith("Can't initialize git repo")
   ) {
     return { type: "error", text: trimmed, raw };
   }
@@ -192,23 +245,23 @@ export function classifyMessage(line: string): ClassifiedMessage {
     return { type: "warning", text: trimmed, raw };
   }
 
-  // File actions
+  // File actions name a single path
   if (
-    /^Added .* to the chat/.test(trimmed) ||
-    /^Removed .* from the chat/.test(trimmed) ||
-    /^Dropping .* from the chat/.test(trimmed) ||
-    /^Add .* to the chat\?/.test(trimmed) ||
-    trimmed.startsWith("Create new file") ||
-    trimmed.startsWith("Read-only:")
+    new RegExp(`^Added ${CHROME_PATH} to (?:the chat|read-only files)\\.?$`).test(trimmed) ||
+    new RegExp(`^Removed ${CHROME_PATH} from the chat\\.?$`).test(trimmed) ||
+    new RegExp(`^Dropping ${CHROME_PATH} from the chat\\.?$`).test(trimmed) ||
+    new RegExp(`^Add ${CHROME_PATH} to the chat\\?`).test(trimmed) ||
+    new RegExp(`^Create new file ${CHROME_PATH}\\?`).test(trimmed)
   ) {
     return { type: "file_action", text: trimmed, raw };
   }
 
   // Info messages (version, model, repo, etc.)
   if (
-    trimmed.startsWith("Aider v") ||
+    /^Aider v\d/.test(trimmed) ||
     trimmed.startsWith("Main model:") ||
     trimmed.startsWith("Weak model:") ||
+    trimmed.startsWith("Editor model:") ||
     trimmed.startsWith("Git repo:") ||
     trimmed.startsWith("Repo-map:") ||
     trimmed.startsWith("Use /help") ||
@@ -218,12 +271,7 @@ export function classifyMessage(line: string): ClassifiedMessage {
   }
 
   // Progress/token updates
-  if (
-    trimmed.startsWith("Tokens:") ||
-    trimmed.startsWith("Cost:") ||
-    /sent \d+ tokens/.test(trimmed) ||
-    /received \d+ tokens/.test(trimmed)
-  ) {
+  if (/^Tokens: [\d.,]+k? sent\b/.test(trimmed) || /^Cost: \$/.test(trimmed)) {
     return { type: "progress", text: trimmed, raw };
   }
 
@@ -236,16 +284,27 @@ export function parseAiderOutput(output: string): ParsedAiderOutput {
     warnings: [],
     errors: [],
   };
-  const userMessageLines: string[] = [];
+  const outputSegments: OutputSegment[] = [];
   const editBlocks: EditBlock[] = [];
   const codeBlocks: CodeBlock[] = [];
+  const shellCommands: ShellCommand[] = [];
   const promptMessages: string[] = [];
   const classifiedMessages: ClassifiedMessage[] = [];
 
   const segments = parseSegmentsFromOutput(output);
 
-  let capturingUserMessage = false;
-  let foundFirstUserMessage = false;
+  const addMarkdown = (text: string): void => {
+    const last = outputSegments[outputSegments.length - 1];
+    if (last?.kind === "markdown") {
+      last.text += text;
+    } else if (text.length > 0) {
+      outputSegments.push({ kind: "markdown", text });
+    }
+  };
+  const addEdits = (blocks: EditBlock[]): void => {
+    editBlocks.push(...blocks);
+    outputSegments.push({ kind: "edit", blocks });
+  };
 
   for (let index = 0; index < segments.length; index++) {
     const segment = segments[index];
@@ -261,7 +320,6 @@ export function parseAiderOutput(output: string): ParsedAiderOutput {
       }
 
       if (collectPromptMessage(normalizedLine, promptMessages)) {
-        capturingUserMessage = false;
         continue;
       }
 
@@ -270,63 +328,64 @@ export function parseAiderOutput(output: string): ParsedAiderOutput {
         isPotentialFilePath(trimmedLine) &&
         !isCommandEcho(normalizedLine)
       ) {
-        const editBlock = buildEditBlockFromPathAndCode(
+        const blocks = buildEditBlocksFromPathAndCode(
           trimmedLine,
           nextSegment,
         );
-        if (editBlock) {
-          editBlocks.push(editBlock);
+        if (blocks.length > 0) {
+          addEdits(blocks);
           index += 1;
-          capturingUserMessage = false;
           continue;
         }
       }
 
-      if (processInfoLine(trimmedLine, info)) {
-        capturingUserMessage = false;
+      if (isQuestionSubject(segments, index)) {
         continue;
       }
 
-      if (shouldSkipForUserMessage(normalizedLine)) {
-        capturingUserMessage = false;
+      if (processInfoLine(trimmedLine, info)) {
         continue;
       }
 
-      if (
-        !foundFirstUserMessage &&
-        trimmedLine.length > 0 &&
-        !/^[A-Za-z\s]+:/.test(trimmedLine) &&
-        !trimmedLine.startsWith("Aider v") &&
-        !normalizedLine.startsWith("```")
-      ) {
-        foundFirstUserMessage = true;
-        capturingUserMessage = true;
+      if (isAiderChrome(segment.text)) {
+        continue;
       }
 
-      if (capturingUserMessage) {
-        userMessageLines.push(normalizedLine);
-      }
+      addMarkdown(segment.text);
     } else if (segment.kind === "code") {
-      handleStandaloneCodeSegment(segment, editBlocks, codeBlocks);
-      capturingUserMessage = false;
-    } else if (segment.kind === "incomplete") {
-      const pendingLines = [
-        trimTrailingNewline(segment.open),
-        ...segment.lines.map(trimTrailingNewline),
-      ];
-      for (const line of pendingLines) {
-        if (line.length > 0) {
-          userMessageLines.push(line);
-        }
+      const blocks = editBlocksFromStandaloneCode(segment);
+      if (blocks.length > 0) {
+        addEdits(blocks);
+        continue;
+      }
+      const label = extractFenceLabel(segment.open);
+      const text = segment.open + segment.lines.join("") + segment.close;
+      const command = linesToContent(segment.lines);
+      if (isShellLanguage(label) && commandLines(command).length > 0) {
+        const shellCommand = { language: label, command };
+        shellCommands.push(shellCommand);
+        outputSegments.push({ kind: "shell", command: shellCommand, text });
+        continue;
       }
+      codeBlocks.push({
+        path: label || "unknown",
+        content: linesToContent(segment.lines),
+      });
+      addMarkdown(text);
+    } else if (segment.kind === "incomplete") {
+      addMarkdown(segment.open + segment.lines.join(""));
     }
   }
 
   return {
     info,
-    userMessage: userMessageLines.join("\n"),
+    userMessage: outputSegments
+      .map((part) => (part.kind === "markdown" ? part.text : ""))
+      .join(""),
+    segments: outputSegments,
     editBlocks,
     codeBlocks,
+    shellCommands,
     prompts: promptMessages,
     classifiedMessages,
   };
@@ -417,15 +476,31 @@ function collectPromptMessage(line: string, prompts: string[]): boolean {
   return true;
 }
 
-function shouldSkipForUserMessage(line: string): boolean {
-  if (isPromptIndicator(line)) {
+// Lines Aider prints around a reply rather than in it. Blockquotes, shell
+// commands and "Note:" lines are the model's own and stay.
+export function isAiderChrome(text: string): boolean {
+  // The input prompt is the only line Aider leaves unterminated at the end of a turn.
+  if (!/\n$/.test(text) && AIDER_PROMPT_LINE.test(text)) {
     return true;
   }
+  const line = trimTrailingNewline(text);
   if (isPromptLine(line.trim())) {
     return true;
   }
-  if (line.startsWith("> ") && !line.includes("<<<") && !line.includes(">>>")) {
-    return true;
+  return CHROME_MESSAGE_TYPES.has(classifyMessage(line).type);
+}
+
+// Aider shows what a question is about (a file, a block of commands) on the
+// lines right before it.
+function isQuestionSubject(segments: Segment[], index: number): boolean {
+  for (let next = index; next < segments.length; next++) {
+    const segment = segments[next];
+    if (segment.kind !== "line" || segment.text.trim().length === 0) {
+      return false;
+    }
+    if (next > index && isSubjectQuestion(segment.text.trim())) {
+      return true;
+    }
   }
   return false;
 }
@@ -483,6 +558,12 @@ function processInfoLine(line: string, info: AiderInfo): boolean {
     return true;
   }
 
+  const editorModelMatch = normalizedLine.match(/^Editor model: (.+)/);
+  if (editorModelMatch) {
+    info.editorModel = editorModelMatch[1];
+    return true;
+  }
+
   const gitRepoMatch = normalizedLine.match(/^Git repo: (.+)/);
   if (gitRepoMatch) {
     info.gitRepo = gitRepoMatch[1];
@@ -498,21 +579,51 @@ function processInfoLine(line: string, info: AiderInfo): boolean {
   const tokensMatch = normalizedLine.match(/^Tokens?: (.+)/);
   if (tokensMatch) {
     info.chatTokens = tokensMatch[1];
+    info.usage = parseUsageReport(normalizedLine) ?? info.usage;
     return true;
   }
 
   const costMatch = normalizedLine.match(/^Cost: (.+)/);
   if (costMatch) {
     info.cost = costMatch[1];
+    const report = parseUsageReport(normalizedLine);
+    if (report) {
+      // Costs on their own line belong to the token report before them.
+      info.usage = {
+        ...(info.usage ?? report),
+        messageCost: report.messageCost,
+        sessionCost: report.sessionCost,
+      };
+    }
+    return true;
+  }
+
+  const providerError = classifyProviderError(normalizedLine);
+  if (providerError) {
+    info.providerError = info.providerError
+      ? mergeProviderErrors(info.providerError, providerError)
+      : providerError;
     return true;
   }
 
-  if (/\bwarning\b/i.test(normalizedLine)) {
+  // Aider lists missing keys one per line under "Missing these environment variables:".
+  const missingKeyMatch = normalizedLine.match(/^-\s+([A-Z][A-Z0-9_]+)$/);
+  if (missingKeyMatch && info.providerError?.kind === "authentication") {
+    info.providerError = mergeProviderErrors(info.providerError, {
+      ...info.providerError,
+      missingKeys: [missingKeyMatch[1]],
+    });
+    return true;
+  }
+
+  // Only Aider's own forms, such as "Warning:"; a reply that mentions an error is still a reply.
+  const type = classifyMessage(normalizedLine).type;
+  if (type === "warning") {
     info.warnings.push(normalizedLine);
     return true;
   }
 
-  if (/\berror\b/i.test(normalizedLine)) {
+  if (type === "error") {
     info.errors.push(normalizedLine);
     return true;
   }
@@ -527,7 +638,8 @@ function processInfoLine(line: string, info: AiderInfo): boolean {
     return true;
   }
 
-  if (/^https?:\/\/[\w\-./?#=&%]+$/i.test(normalizedLine)) {
+  // Aider follows its warnings with a link to its docs.
+  if (/^https?:\/\/aider\.chat\/[\w\-./?#=&%]*$/i.test(normalizedLine)) {
     info.warnings.push(normalizedLine);
     return true;
   }
@@ -540,56 +652,47 @@ function processInfoLine(line: string, info: AiderInfo): boolean {
   return false;
 }
 
-function buildEditBlockFromPathAndCode(
+function buildEditBlocksFromPathAndCode(
   path: string,
   block: CodeSegment,
-): EditBlock | null {
+): EditBlock[] {
   const content = linesToContent(block.lines);
 
   if (content.includes("<<<<<<< SEARCH")) {
     return parseDiffFormat(path, content);
   }
 
-  return {
-    format: "whole",
-    path,
-    newText: content,
-  };
+  return [
+    {
+      format: "whole",
+      path,
+      newText: content,
+    },
+  ];
 }
 
-function handleStandaloneCodeSegment(
-  segment: CodeSegment,
-  editBlocks: EditBlock[],
-  codeBlocks: CodeBlock[],
-): void {
+// Diff and diff-fenced edits come as a fenced block without a path line before it.
+function editBlocksFromStandaloneCode(segment: CodeSegment): EditBlock[] {
   const label = extractFenceLabel(segment.open);
   const normalizedLabel = label.toLowerCase();
   const contentLines = segment.lines.map(trimTrailingNewline);
   const content = contentLines.join("\n");
 
   if (normalizedLabel === "diff" || normalizedLabel === "udiff") {
-    const editBlock = parseUdiffFormat(content);
-    if (editBlock) {
-      editBlocks.push(editBlock);
-      return;
+    const diffBlocks = parseUdiffFormat(content);
+    if (diffBlocks.length > 0) {
+      return diffBlocks;
     }
   }
 
   if (contentLines.length > 0) {
     const firstLine = contentLines[0].trim();
     if (isPotentialFilePath(firstLine) && content.includes("<<<<<<< SEARCH")) {
-      const diffBlock = parseDiffFencedFormat(firstLine, contentLines.slice(1));
-      if (diffBlock) {
-        editBlocks.push(diffBlock);
-        return;
-      }
+      return parseDiffFencedFormat(firstLine, contentLines.slice(1));
     }
   }
 
-  codeBlocks.push({
-    path: label || "unknown",
-    content,
-  });
+  return [];
 }
 
 function extractFenceLabel(openLine: string): string {
@@ -604,70 +707,46 @@ function linesToContent(lines: string[]): string {
   return lines.map(trimTrailingNewline).join("\n");
 }
 
-function isPotentialFilePath(value: string): boolean {
+export function isPotentialFilePath(value: string): boolean {
   if (!value || /\s/.test(value)) {
     return false;
   }
   return isValidFilePath(value);
 }
 
-function parseDiffFormat(path: string, content: string): EditBlock | null {
-  const searchReplaceBlocks = extractSearchReplaceBlocks(content);
-
-  if (searchReplaceBlocks.length === 0) {
-    return null;
-  }
-
-  const firstBlock = searchReplaceBlocks[0];
-
-  return {
-    format: "diff",
+// Aider often sends several SEARCH/REPLACE pairs for one file; each becomes its own block.
+function parseDiffFormat(path: string, content: string): EditBlock[] {
+  return extractSearchReplaceBlocks(content).map((block) => ({
+    format: "diff" as const,
     path,
-    oldText: firstBlock.search,
-    newText: firstBlock.replace,
-  };
+    oldText: block.search,
+    newText: block.replace,
+  }));
 }
 
 function parseDiffFencedFormat(
   path: string,
   contentLines: string[],
-): EditBlock | null {
+): EditBlock[] {
   const content = contentLines.join("\n");
   return parseDiffFormat(path, content);
 }
 
-function parseUdiffFormat(content: string): EditBlock | null {
-  const lines = content.split("\n");
-
-  let path = "";
-  let oldText = "";
-  let newText = "";
-
-  for (const line of lines) {
-    if (line.startsWith("--- ")) {
-      path = line.substring(4).trim();
-    } else if (line.startsWith("+++ ")) {
-      const newPath = line.substring(4).trim();
-      if (newPath.length > 0) {
-        path = newPath;
-      }
-    } else if (line.startsWith("-") && !line.startsWith("---")) {
-      oldText += line.substring(1) + "\n";
-    } else if (line.startsWith("+") && !line.startsWith("+++")) {
-      newText += line.substring(1) + "\n";
-    }
-  }
+function parseUdiffFormat(content: string): EditBlock[] {
+  return parseUnifiedDiff(content).map((file) => {
+    const firstHunk = file.hunks[0];
+    const start = firstHunk ? (file.deleted ? firstHunk.oldStart : firstHunk.newStart) : null;
 
-  if (!path) {
-    return null;
-  }
-
-  return {
-    format: "udiff",
-    path,
-    oldText: oldText.trimEnd(),
-    newText: newText.trimEnd(),
-  };
+    return {
+      format: "udiff" as const,
+      path: file.path,
+      // Hunks are joined in order, so the pair still reads as a diff of the changed regions.
+      oldText: file.created ? undefined : file.hunks.flatMap((hunk) => hunk.oldLines).join("\n"),
+      newText: file.deleted ? "" : file.hunks.flatMap((hunk) => hunk.newLines).join("\n"),
+      hunks: file.hunks,
+      line: file.created ? 1 : (start ?? undefined),
+    };
+  });
 }
 
 function extractSearchReplaceBlocks(content: string): DiffSearchReplace[] {
@@ -766,16 +845,16 @@ export function convertEditBlocksToACPDiffs(
   });
 }
 
+// Token and cost lines and provider errors are left out; the agent reports them itself.
 export function formatAiderInfo(info: AiderInfo): string {
   const parts: string[] = [];
 
   if (info.version) parts.push(`🚀 **Aider**: ${info.version}`);
   if (info.mainModel) parts.push(`🤖 **Main Model**: ${info.mainModel}`);
   if (info.weakModel) parts.push(`🤖 **Weak Model**: ${info.weakModel}`);
+  if (info.editorModel) parts.push(`🤖 **Editor Model**: ${info.editorModel}`);
   if (info.gitRepo) parts.push(`📁 **Repo**: ${info.gitRepo}`);
   if (info.repoMap) parts.push(`🗺️ **Repo-map**: ${info.repoMap}`);
-  if (info.chatTokens) parts.push(`\n\n💬 **Tokens**: ${info.chatTokens}`);
-  if (info.cost) parts.push(`💰 **Cost**: ${info.cost}`);
 
   info.warnings.forEach((warning) => parts.push(`⚠️ ${warning}`));
   info.errors.forEach((error) => parts.push(`❌ ${error}`));
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { AiderSupervisor, DEFAULT_RESTART_POLICY } from "./aider-supervisor.js";
+
+describe("AiderSupervisor", () => {
+  it("backs off exponentially between restarts", () => {
+    let now = 0;
+    const supervisor = new AiderSupervisor({ maxRestarts: 5 }, () => now);
+
+    const delays = [1, 2, 3].map(() => {
+      now += 10;
+      const decision = supervisor.recordCrash();
+      return decision.action === "restart" ? decision.delayMs : -1;
+    });
+
+    expect(delays).toEqual([1_000, 2_000, 4_000]);
+  });
+
+  it("caps the delay at maxDelayMs", () => {
+    const supervisor = new AiderSupervisor({
+      maxRestarts: 10,
+      initialDelayMs: 10_000,
+      maxDelayMs: 15_000,
+    });
+
+    supervisor.recordCrash();
+    const decision = supervisor.recordCrash();
+    expect(decision).toEqual({ action: "restart", attempt: 2, delayMs: 15_000 });
+  });
+
+  it("gives up on a crash loop", () => {
+    const supervisor = new AiderSupervisor({ maxRestarts: 2 }, () => 0);
+
+    expect(supervisor.recordCrash().action).toBe("restart");
+    expect(supervisor.recordCrash().action).toBe("restart");
+    expect(supervisor.recordCrash()).toEqual({ action: "give_up", crashes: 3 });
+  });
+
+  it("forgets crashes outside the window", () => {
+    let now = 0;
+    const supervisor = new AiderSupervisor({ maxRestarts: 1 }, () => now);
+
+    expect(supervisor.recordCrash().action).toBe("restart");
+    now += DEFAULT_RESTART_POLICY.windowMs;
+    expect(supervisor.recordCrash()).toEqual({
+      action: "restart",
+      attempt: 1,
+      delayMs: DEFAULT_RESTART_POLICY.initialDelayMs,
+    });
+  });
+});
@@ -0,0 +1,60 @@
+export interface RestartPolicy {
+  // Number of crashes tolerated inside `windowMs` before giving up.
+  maxRestarts: number;
+  windowMs: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RESTART_POLICY: RestartPolicy = {
+  maxRestarts: 3,
+  windowMs: 60_000,
+  initialDelayMs: 1_000,
+  maxDelayMs: 30_000,
+};
+
+export type RestartDecision =
+  | { action: "restart"; attempt: number; delayMs: number }
+  | { action: "give_up"; crashes: number };
+
+/**
+ * Tracks crashes of a session's Aider process and decides whether to restart
+ * it, backing off exponentially and giving up on crash loops.
+ */
+export class AiderSupervisor {
+  private crashes: number[] = [];
+  private readonly policy: RestartPolicy;
+  private readonly now: () => number;
+
+  constructor(policy: Partial<RestartPolicy> = {}, now: () => number = Date.now) {
+    this.policy = { ...DEFAULT_RESTART_POLICY, ...policy };
+    this.now = now;
+  }
+
+  public getPolicy(): RestartPolicy {
+    return this.policy;
+  }
+
+  public recordCrash(): RestartDecision {
+    const timestamp = this.now();
+    this.crashes = this.crashes.filter(
+      (crashTime) => timestamp - crashTime < this.policy.windowMs,
+    );
+    this.crashes.push(timestamp);
+
+    const attempt = this.crashes.length;
+    if (attempt > this.policy.maxRestarts) {
+      return { action: "give_up", crashes: attempt };
+    }
+
+    const delayMs = Math.min(
+      this.policy.initialDelayMs * 2 ** (attempt - 1),
+      this.policy.maxDelayMs,
+    );
+    return { action: "restart", attempt, delayMs };
+  }
+
+  public reset(): void {
+    this.crashes = [];
+  }
+}
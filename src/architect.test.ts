@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatProposalText,
+  isArchitectConfirmation,
+  isArchitectPromptMode,
+  isOneShotArchitectCommand,
+} from "./architect.js";
+import { parseAiderQuestion } from "./question-parser.js";
+
+describe("isArchitectPromptMode", () => {
+  it("recognises the architect prompt with or without multiline mode", () => {
+    expect(isArchitectPromptMode("architect")).toBe(true);
+    expect(isArchitectPromptMode("architect multi")).toBe(true);
+    expect(isArchitectPromptMode("ask")).toBe(false);
+    expect(isArchitectPromptMode("")).toBe(false);
+    expect(isArchitectPromptMode(undefined)).toBe(false);
+  });
+});
+
+describe("isOneShotArchitectCommand", () => {
+  it("matches /architect with a message but not the bare mode switch", () => {
+    expect(isOneShotArchitectCommand("/architect Rename the store")).toBe(true);
+    expect(isOneShotArchitectCommand("/architect")).toBe(false);
+    expect(isOneShotArchitectCommand("/architecture notes")).toBe(false);
+  });
+});
+
+describe("isArchitectConfirmation", () => {
+  it("matches only the question between proposal and edits", () => {
+    expect(isArchitectConfirmation(parseAiderQuestion("Edit the files? (Y)es/(N)o [Yes]:")!)).toBe(true);
+    expect(isArchitectConfirmation(parseAiderQuestion("Create new file? (Y)es/(N)o [Yes]:")!)).toBe(false);
+  });
+});
+
+describe("formatProposalText", () => {
+  it("keeps prose and code in order and leaves status lines out", () => {
+    const text = [
+      "Change the title:",
+      "",
+      "src/Header.astro",
+      "```astro",
+      "Tokens: kept, this is code",
+      "```",
+      "",
+      "Tokens: 4.1k sent, 120 received. Cost: $0.01 message, $0.01 session.",
+      "Edit the files? (Y)es/(N)o [Yes]: ",
+    ].join("\n");
+
+    expect(formatProposalText(text)).toBe(
+      ["Change the title:", "", "src/Header.astro", "```astro", "Tokens: kept, this is code", "```", ""].join("\n"),
+    );
+  });
+});
@@ -0,0 +1,51 @@
+import { classifyMessage, type AiderMessageType } from "./aider-output-parser.js";
+import type { AiderQuestion } from "./question-parser.js";
+
+// Aider asks this between the architect model's proposal and the editor model's edits.
+export const ARCHITECT_CONFIRMATION = "Edit the files?";
+
+/**
+ * An /architect turn: the architect model describes the change, Aider asks
+ * whether to edit the files, and only then the editor model writes edits.
+ */
+export interface ArchitectTurn {
+  phase: "proposal" | "editor" | "declined";
+  proposal: string;
+}
+
+// Warnings, errors and file actions are still reported as messages, so only prose is kept.
+const PROPOSAL_LINE_TYPES = new Set<AiderMessageType>(["content"]);
+
+// "architect> " or "architect multi> " means the next message goes to the architect model.
+export function isArchitectPromptMode(mode: string | null | undefined): boolean {
+  return mode?.split(/\s+/).includes("architect") ?? false;
+}
+
+// "/architect <message>" sends one message through the architect from any mode.
+export function isOneShotArchitectCommand(command: string): boolean {
+  return /^\/architect\s+\S/.test(command.trim());
+}
+
+export function isArchitectConfirmation(question: AiderQuestion): boolean {
+  return question.question === ARCHITECT_CONFIRMATION;
+}
+
+/**
+ * Picks the proposal out of released output, keeping its order. The architect
+ * often shows code under a file name, which the parser would read as an edit;
+ * here it stays part of the description. Status lines such as "Tokens: ..."
+ * are left to the usual handling.
+ */
+export function formatProposalText(text: string): string {
+  let insideFence = false;
+  return text
+    .split("\n")
+    .filter((line) => {
+      if (/^[ \t]*```/.test(line)) {
+        insideFence = !insideFence;
+        return true;
+      }
+      return insideFence || PROPOSAL_LINE_TYPES.has(classifyMessage(line).type);
+    })
+    .join("\n");
+}
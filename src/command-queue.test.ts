@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import { AiderCommandQueue } from "./command-queue.js";
+import { ScriptedAiderBackend, type AiderTranscript } from "./scripted-backend.js";
+
+const transcript: AiderTranscript = {
+  events: [
+    { type: "stdout", data: "Aider v0.86.1\n> ", delayMs: 5 },
+    { type: "input", data: "/add a.ts" },
+    { type: "stdout", data: "Added a.ts to the chat\n", delayMs: 5 },
+    { type: "stdout", data: "> " },
+    { type: "input", data: "/add b.ts" },
+    { type: "stdout", data: "Added b.ts to the chat\n> " },
+    { type: "input", data: "explain" },
+    { type: "stdout", data: "Both files export a helper.\n> " },
+  ],
+};
+
+function createBackend(events: AiderTranscript = transcript): ScriptedAiderBackend {
+  return new ScriptedAiderBackend(events, { timeScale: 0 });
+}
+
+describe("AiderCommandQueue", () => {
+  it("sends commands one at a time and resolves each with its own turn output", async () => {
+    const backend = createBackend();
+    const queue = new AiderCommandQueue(backend);
+    backend.start();
+
+    const results = await Promise.all([
+      queue.enqueue("/add a.ts"),
+      queue.enqueue("/add b.ts"),
+      queue.enqueue("explain"),
+    ]);
+
+    expect(backend.inputs).toEqual(["/add a.ts", "/add b.ts", "explain"]);
+    expect(results.map((result) => result.status)).toEqual(["completed", "completed", "completed"]);
+    expect(results[0]).toEqual({ status: "completed", output: expect.stringContaining("a.ts") });
+    expect(results[0]).not.toEqual({ status: "completed", output: expect.stringContaining("b.ts") });
+    expect(results[2]).toEqual({
+      status: "completed",
+      output: expect.stringContaining("Both files export a helper."),
+    });
+  });
+
+  it("holds commands until Aider has finished starting", async () => {
+    const backend = createBackend();
+    const queue = new AiderCommandQueue(backend);
+
+    const result = queue.enqueue("/add a.ts");
+    expect(backend.inputs).toEqual([]);
+    expect(queue.getDepth()).toBe(1);
+
+    backend.start();
+    await result;
+    expect(backend.inputs).toEqual(["/add a.ts"]);
+  });
+
+  it("tells which command Aider is working on", async () => {
+    const backend = createBackend();
+    const queue = new AiderCommandQueue(backend);
+    const seen: (string | undefined)[] = [];
+    backend.on("data", () => seen.push(queue.getInFlightCommand()));
+    backend.start();
+
+    await queue.enqueue("/add a.ts");
+    expect(seen[0]).toBeUndefined();
+    expect(seen).toContain("/add a.ts");
+    expect(queue.getInFlightCommand()).toBeUndefined();
+  });
+
+  it("reports depth changes and cancels commands that were not sent yet", async () => {
+    const backend = createBackend();
+    const queue = new AiderCommandQueue(backend);
+    const depths: number[] = [];
+    queue.on("depth", (depth: number) => depths.push(depth));
+    const ready = new Promise((resolve) => backend.once("ready", resolve));
+    backend.start();
+    await ready;
+
+    const first = queue.enqueue("/add a.ts");
+    const second = queue.enqueue("/add b.ts");
+    expect(queue.cancelPending()).toBe(1);
+
+    await expect(second).resolves.toEqual({ status: "cancelled" });
+    await expect(first).resolves.toMatchObject({ status: "completed" });
+    expect(backend.inputs).toEqual(["/add a.ts"]);
+    expect(depths).toEqual([1, 2, 1, 0]);
+  });
+
+  it("resolves queued commands when Aider exits", async () => {
+    const backend = createBackend({
+      events: [
+        { type: "stdout", data: "> " },
+        { type: "input" },
+        { type: "exit", code: 1, delayMs: 5 },
+      ],
+    });
+    const queue = new AiderCommandQueue(backend);
+    backend.start();
+
+    const results = await Promise.all([queue.enqueue("hello"), queue.enqueue("again")]);
+
+    expect(results.map((result) => result.status)).toEqual(["exited", "exited"]);
+    await expect(queue.enqueue("late")).resolves.toMatchObject({ status: "exited" });
+    expect(backend.inputs).toEqual(["hello"]);
+  });
+});
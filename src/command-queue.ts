@@ -0,0 +1,118 @@
+import { EventEmitter } from "events";
+import { AiderBackend, AiderState } from "./aider-backend.js";
+
+export type CommandOutcome =
+  | { status: "completed"; output: string }
+  | { status: "cancelled" }
+  | { status: "exited"; message: string };
+
+interface QueueEntry {
+  command: string;
+  resolve: (outcome: CommandOutcome) => void;
+}
+
+/**
+ * Serializes commands sent to one Aider backend. A command is only written
+ * once Aider is back at its prompt, and each one resolves with the output of
+ * its own turn. Emits "depth" (depth: number) whenever the depth changes.
+ */
+export class AiderCommandQueue extends EventEmitter {
+  private readonly backend: AiderBackend;
+  private pending: QueueEntry[] = [];
+  private inFlight: QueueEntry | null = null;
+  private exitMessage: string | null = null;
+
+  private readonly onTurnCompleted = (output: string): void => {
+    const entry = this.inFlight;
+    if (!entry) return;
+    this.inFlight = null;
+    entry.resolve({ status: "completed", output });
+    this.emitDepth();
+    this.pump();
+  };
+
+  private readonly onReady = (): void => {
+    this.pump();
+  };
+
+  private readonly onExit = (message: string): void => {
+    this.exitMessage = message;
+    const entries = [...(this.inFlight ? [this.inFlight] : []), ...this.pending];
+    this.inFlight = null;
+    this.pending = [];
+    for (const entry of entries) {
+      entry.resolve({ status: "exited", message });
+    }
+    if (entries.length > 0) {
+      this.emitDepth();
+    }
+  };
+
+  constructor(backend: AiderBackend) {
+    super();
+    this.backend = backend;
+    backend.on("turn_completed", this.onTurnCompleted);
+    backend.on("ready", this.onReady);
+    backend.on("exit", this.onExit);
+  }
+
+  public enqueue(command: string): Promise<CommandOutcome> {
+    if (this.exitMessage !== null) {
+      return Promise.resolve({ status: "exited", message: this.exitMessage });
+    }
+
+    return new Promise((resolve) => {
+      this.pending.push({ command, resolve });
+      this.emitDepth();
+      this.pump();
+    });
+  }
+
+  // Drops commands that have not been written to Aider yet.
+  public cancelPending(): number {
+    const cancelled = this.pending;
+    this.pending = [];
+    for (const entry of cancelled) {
+      entry.resolve({ status: "cancelled" });
+    }
+    if (cancelled.length > 0) {
+      this.emitDepth();
+    }
+    return cancelled.length;
+  }
+
+  // Commands waiting to be sent plus the one Aider is working on.
+  public getDepth(): number {
+    return this.pending.length + (this.inFlight ? 1 : 0);
+  }
+
+  // The command Aider is working on, if it came through the queue.
+  public getInFlightCommand(): string | undefined {
+    return this.inFlight?.command;
+  }
+
+  public dispose(): void {
+    this.cancelPending();
+    this.backend.removeListener("turn_completed", this.onTurnCompleted);
+    this.backend.removeListener("ready", this.onReady);
+    this.backend.removeListener("exit", this.onExit);
+  }
+
+  private pump(): void {
+    if (this.inFlight || this.pending.length === 0 || this.exitMessage !== null) {
+      return;
+    }
+    if (this.backend.getState() !== AiderState.READY) {
+      // Still starting up or waiting on a question; "ready" will pump again.
+      return;
+    }
+
+    const entry = this.pending.shift()!;
+    this.inFlight = entry;
+    this.backend.sendCommand(entry.command);
+  }
+
+  private emitDepth(): void {
+    this.emit("depth", this.getDepth());
+  }
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import {
+  MALFORMED_EDIT_MESSAGE,
+  decideEditOutcome,
+  formatEditFailure,
+  parseEditResults,
+} from "./edit-results.js";
+
+const failureReport = [
+  "The LLM did not conform to the edit format.",
+  "https://aider.chat/docs/troubleshooting/edit-errors.html",
+  "",
+  "# 1 SEARCH/REPLACE block failed to match!",
+  "",
+  "## SearchReplaceNoExactMatch: This SEARCH block failed to exactly match lines in src/app.py",
+  "<<<<<<< SEARCH",
+  "def main():",
+  "    run()",
+  "=======",
+  "def main():",
+  "    serve()",
+  ">>>>>>> REPLACE",
+  "",
+  "Did you mean to match some of these actual lines from src/app.py?",
+  "",
+  "The SEARCH section must exactly match an existing block of lines including all white space, comments, indentation, docstrings, etc",
+].join("\n");
+
+describe("parseEditResults", () => {
+  it("reads applied files and failed blocks in order", () => {
+    const results = parseEditResults(`Applied edit to README.md\r\n${failureReport}\nApplied edit to src/app.py\n`);
+
+    expect(results.malformed).toBe(true);
+    expect(results.events).toEqual([
+      { kind: "applied", path: "README.md" },
+      {
+        kind: "failed",
+        path: "src/app.py",
+        reason: "SearchReplaceNoExactMatch: This SEARCH block failed to exactly match lines in src/app.py",
+        search: "def main():\n    run()",
+        replace: "def main():\n    serve()",
+      },
+      { kind: "applied", path: "src/app.py" },
+    ]);
+  });
+
+  it("treats a dry run as not applied", () => {
+    expect(parseEditResults("Did not apply edit to a.py (--dry-run)").events).toMatchObject([
+      { kind: "failed", path: "a.py" },
+    ]);
+  });
+});
+
+describe("decideEditOutcome", () => {
+  it("fails an edit whose last result is a failed block", () => {
+    const outcome = decideEditOutcome(
+      parseEditResults(failureReport),
+      "/repo/src/app.py",
+      "/repo",
+      false,
+      "not reported",
+    );
+
+    expect(outcome.status).toBe("failed");
+    expect(outcome.failures).toHaveLength(1);
+    expect(formatEditFailure(outcome)).toContain("Unmatched SEARCH text:\n```\ndef main():\n    run()\n```");
+  });
+
+  it("completes an edit that a later reflection applied", () => {
+    const results = parseEditResults(`${failureReport}\nApplied edit to src/app.py`);
+
+    expect(decideEditOutcome(results, "/repo/src/app.py", "/repo", true, "x").status).toBe("completed");
+  });
+
+  it("matches paths reported relative to a repository root above the working directory", () => {
+    const results = parseEditResults("Applied edit to packages/web/index.ts");
+
+    expect(
+      decideEditOutcome(results, "/repo/packages/web/index.ts", "/repo/packages/web", false, "x"),
+    ).toEqual({ status: "completed", failures: [] });
+  });
+
+  it("falls back to the disk and then to the given reason", () => {
+    const none = parseEditResults("");
+
+    expect(decideEditOutcome(none, "/repo/a.py", "/repo", true, "x").status).toBe("completed");
+    expect(decideEditOutcome(none, "/repo/a.py", "/repo", false, "not reported")).toEqual({
+      status: "failed",
+      reason: "not reported",
+      failures: [],
+    });
+    expect(
+      decideEditOutcome(parseEditResults(MALFORMED_EDIT_MESSAGE), "/repo/a.py", "/repo", false, "x")
+        .reason,
+    ).toBe(MALFORMED_EDIT_MESSAGE);
+  });
+});
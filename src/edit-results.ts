@@ -0,0 +1,156 @@
+import * as path from "node:path";
+
+export interface EditFailure {
+  path: string;
+  // Aider's heading, e.g. "SearchReplaceNoExactMatch: This SEARCH block failed to exactly match lines in app.py".
+  reason: string;
+  search: string;
+  replace: string;
+}
+
+type EditEvent = { kind: "applied"; path: string } | ({ kind: "failed" } & EditFailure);
+
+export interface EditResults {
+  // In output order, so a block fixed on a later reflection counts as applied.
+  events: EditEvent[];
+  // Aider printed "The LLM did not conform to the edit format."
+  malformed: boolean;
+}
+
+export interface EditOutcome {
+  status: "completed" | "failed";
+  reason?: string;
+  failures: EditFailure[];
+}
+
+export const MALFORMED_EDIT_MESSAGE = "The LLM did not conform to the edit format.";
+
+const APPLIED_PATTERN = /^Applied edit to (.+)$/;
+const DRY_RUN_PATTERN = /^Did not apply edit to (.+) \(--dry-run\)$/;
+const FAILURE_PATTERN = /^## (\w+: .* in (.+))$/;
+
+/**
+ * Reads the results Aider prints after applying a response's edits: one
+ * "Applied edit to <file>" per written file, or a report listing each
+ * SEARCH/REPLACE block that failed to match.
+ */
+export function parseEditResults(output: string): EditResults {
+  const lines = output.replace(/\r\n?/g, "\n").split("\n");
+  const events: EditEvent[] = [];
+  let malformed = false;
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index].trim();
+
+    if (line === MALFORMED_EDIT_MESSAGE) {
+      malformed = true;
+      continue;
+    }
+
+    const applied = line.match(APPLIED_PATTERN);
+    if (applied) {
+      events.push({ kind: "applied", path: applied[1].trim() });
+      continue;
+    }
+
+    const dryRun = line.match(DRY_RUN_PATTERN);
+    if (dryRun) {
+      events.push({
+        kind: "failed",
+        path: dryRun[1].trim(),
+        reason: "Aider is running with --dry-run, so the edit was not written.",
+        search: "",
+        replace: "",
+      });
+      continue;
+    }
+
+    const failure = line.match(FAILURE_PATTERN);
+    if (failure && lines[index + 1]?.trim() === "<<<<<<< SEARCH") {
+      const block = readFailedBlock(lines, index + 2);
+      events.push({
+        kind: "failed",
+        path: failure[2].trim(),
+        reason: failure[1],
+        search: block.search,
+        replace: block.replace,
+      });
+      index = block.end;
+    }
+  }
+
+  return { events, malformed };
+}
+
+function readFailedBlock(
+  lines: string[],
+  start: number,
+): { search: string; replace: string; end: number } {
+  const search: string[] = [];
+  const replace: string[] = [];
+  let index = start;
+
+  while (index < lines.length && lines[index].trim() !== "=======") {
+    search.push(lines[index]);
+    index += 1;
+  }
+  index += 1;
+  while (index < lines.length && lines[index].trim() !== ">>>>>>> REPLACE") {
+    replace.push(lines[index]);
+    index += 1;
+  }
+
+  return { search: search.join("\n"), replace: replace.join("\n"), end: index };
+}
+
+// Aider names files relative to the repository root, which may sit above the working directory.
+function samePath(reported: string, filePath: string, workingDir: string): boolean {
+  if (path.resolve(workingDir, reported) === filePath) {
+    return true;
+  }
+  const normalized = path.normalize(reported);
+  return !path.isAbsolute(normalized) && filePath.endsWith(path.sep + normalized);
+}
+
+/**
+ * Decides whether an edit to `filePath` went through. The last result Aider
+ * reported for the file wins; with none, a change on disk counts as applied.
+ */
+export function decideEditOutcome(
+  results: EditResults,
+  filePath: string,
+  workingDir: string,
+  changedOnDisk: boolean,
+  unconfirmedReason: string,
+): EditOutcome {
+  const events = results.events.filter((event) => samePath(event.path, filePath, workingDir));
+  const lastApplied = events.map((event) => event.kind).lastIndexOf("applied");
+  const failures = events
+    .slice(lastApplied + 1)
+    .flatMap((event) =>
+      event.kind === "failed"
+        ? [{ path: event.path, reason: event.reason, search: event.search, replace: event.replace }]
+        : [],
+    );
+
+  if (failures.length > 0) {
+    return { status: "failed", reason: failures[0].reason, failures };
+  }
+  if (lastApplied !== -1 || changedOnDisk) {
+    return { status: "completed", failures: [] };
+  }
+  return {
+    status: "failed",
+    reason: results.malformed ? MALFORMED_EDIT_MESSAGE : unconfirmedReason,
+    failures: [],
+  };
+}
+
+export function formatEditFailure(outcome: EditOutcome): string {
+  const parts = [`❌ ${outcome.reason ?? "The edit was not applied."}`];
+  for (const failure of outcome.failures) {
+    if (failure.search.length === 0) continue;
+    parts.push(`Unmatched SEARCH text:\n\`\`\`\n${failure.search}\n\`\`\``);
+  }
+  return parts.join("\n\n");
+}
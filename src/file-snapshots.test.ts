@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { FileSnapshots, diffFileContents, findFirstChangedLine } from "./file-snapshots.js";
+
+describe("FileSnapshots", () => {
+  it("keeps the first copy of a file and reports missing files", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "aider-acp-snapshots-"));
+    const filePath = path.join(dir, "notes.txt");
+    fs.writeFileSync(filePath, "before\n");
+
+    const snapshots = new FileSnapshots();
+    await snapshots.capture(filePath);
+    fs.writeFileSync(filePath, "after\n");
+
+    await expect(snapshots.capture(filePath)).resolves.toEqual({ kind: "file", text: "before\n" });
+    await expect(snapshots.capture(path.join(dir, "new.txt"))).resolves.toEqual({ kind: "missing" });
+    expect((await snapshots.capture(dir)).kind).toBe("unreadable");
+
+    snapshots.forget(filePath);
+    expect(snapshots.get(filePath)).toBeUndefined();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
+
+describe("diffFileContents", () => {
+  it("returns the whole file before and after with the first changed line", () => {
+    expect(
+      diffFileContents(
+        "/repo/app.py",
+        { kind: "file", text: "a\nb\nc\n" },
+        { kind: "file", text: "a\nB\nc\n" },
+      ),
+    ).toEqual({
+      diff: { type: "diff", path: "/repo/app.py", oldText: "a\nb\nc\n", newText: "a\nB\nc\n" },
+      line: 2,
+    });
+  });
+
+  it("treats a file that did not exist as created", () => {
+    expect(
+      diffFileContents("/repo/new.py", { kind: "missing" }, { kind: "file", text: "print()\n" }),
+    ).toMatchObject({ diff: { oldText: null, newText: "print()\n" }, line: 1 });
+  });
+
+  it("gives up when a side is unreadable, the file is gone or nothing changed", () => {
+    const file = { kind: "file" as const, text: "same\n" };
+    expect(diffFileContents("/x", { kind: "unreadable", reason: "EACCES" }, file)).toBeNull();
+    expect(diffFileContents("/x", file, { kind: "missing" })).toBeNull();
+    expect(diffFileContents("/x", file, file)).toBeNull();
+  });
+});
+
+describe("findFirstChangedLine", () => {
+  it("points at appended and truncated lines", () => {
+    expect(findFirstChangedLine("a\nb", "a\nb\nc")).toBe(3);
+    expect(findFirstChangedLine("a\nb\nc", "a\nb")).toBe(2);
+    expect(findFirstChangedLine("", "x")).toBe(1);
+  });
+});
@@ -0,0 +1,88 @@
+import * as fs from "node:fs";
+
+export type FileContents =
+  | { kind: "file"; text: string }
+  | { kind: "missing" }
+  | { kind: "unreadable"; reason: string };
+
+export interface FileDiff {
+  diff: { type: "diff"; path: string; oldText: string | null; newText: string };
+  // 1-based line of the first change in the new contents.
+  line: number;
+}
+
+export async function readFileContents(filePath: string): Promise<FileContents> {
+  try {
+    return { kind: "file", text: await fs.promises.readFile(filePath, "utf8") };
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === "ENOENT") {
+      return { kind: "missing" };
+    }
+    return { kind: "unreadable", reason: (error as Error).message };
+  }
+}
+
+/**
+ * Contents of the files a turn may edit, read before Aider writes them. Each
+ * path is read once; later captures of the same path keep the first copy.
+ */
+export class FileSnapshots {
+  private snapshots = new Map<string, Promise<FileContents>>();
+
+  public capture(filePath: string): Promise<FileContents> {
+    let snapshot = this.snapshots.get(filePath);
+    if (!snapshot) {
+      snapshot = readFileContents(filePath);
+      this.snapshots.set(filePath, snapshot);
+    }
+    return snapshot;
+  }
+
+  public get(filePath: string): Promise<FileContents> | undefined {
+    return this.snapshots.get(filePath);
+  }
+
+  public forget(filePath: string): void {
+    this.snapshots.delete(filePath);
+  }
+}
+
+export function findFirstChangedLine(oldText: string, newText: string): number {
+  const oldLines = oldText.split("\n");
+  const newLines = newText.split("\n");
+  const shared = Math.min(oldLines.length, newLines.length);
+
+  for (let index = 0; index < shared; index++) {
+    if (oldLines[index] !== newLines[index]) {
+      return index + 1;
+    }
+  }
+  // Lines were only appended or removed at the end.
+  return newLines.length > shared ? shared + 1 : Math.max(1, newLines.length);
+}
+
+/**
+ * Builds a whole-file diff from the contents before and after a turn. Returns
+ * null when either side could not be read, the file is gone, or nothing
+ * changed, so the caller can show the parsed edit instead.
+ */
+export function diffFileContents(
+  filePath: string,
+  before: FileContents,
+  after: FileContents,
+): FileDiff | null {
+  if (before.kind === "unreadable" || after.kind !== "file") {
+    return null;
+  }
+
+  const oldText = before.kind === "file" ? before.text : null;
+  if (oldText === after.text) {
+    return null;
+  }
+
+  return {
+    diff: { type: "diff", path: filePath, oldText, newText: after.text },
+    line: findFirstChangedLine(oldText ?? "", after.text),
+  };
+}
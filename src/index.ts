@@ -2,6 +2,7 @@ import { AgentSideConnection, ndJsonStream } from "@agentclientprotocol/sdk";
 import { AiderAcpAgent } from "./acp-agent.js";
 import { nodeToWebReadable, nodeToWebWritable } from "./utils.js";
 import { testParser } from "./aider-output-parser.js";
+import { formatReplay, loadReplayFixture, replayTranscript } from "./replay.js";
 
 // Check for test mode
 if (process.argv.includes("--test-parser")) {
@@ -9,6 +10,19 @@ if (process.argv.includes("--test-parser")) {
   process.exit(0);
 }
 
+// Replay a recorded transcript and print the session updates instead of serving ACP.
+const replayIndex = process.argv.indexOf("--replay");
+if (replayIndex !== -1) {
+  const fixturePath = process.argv[replayIndex + 1];
+  if (!fixturePath) {
+    console.error("Usage: aider-acp --replay <transcript.json>");
+    process.exit(2);
+  }
+  const entries = await replayTranscript(await loadReplayFixture(fixturePath));
+  process.stdout.write(formatReplay(entries));
+  process.exit(0);
+}
+
 // This is the main entry point for the ACP agent.
 // It creates a connection that pipes messages to and from the Zed editor,
 // and instantiates our agent class.
@@ -17,4 +31,26 @@ const stream = ndJsonStream(
   nodeToWebReadable(process.stdin),
 );
 
-new AgentSideConnection((client) => new AiderAcpAgent(client), stream);
+let agent: AiderAcpAgent | undefined;
+const connection = new AgentSideConnection((client) => {
+  agent = new AiderAcpAgent(client);
+  return agent;
+}, stream);
+
+// Stop every Aider process before exiting, so none outlive the editor.
+let shuttingDown = false;
+async function shutdown(exitCode: number): Promise<void> {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  try {
+    await agent?.shutdown();
+  } catch (error) {
+    console.error("Failed to shut down cleanly:", error);
+  }
+  process.exit(exitCode);
+}
+
+void connection.closed.then(() => shutdown(0));
+process.on("SIGTERM", () => void shutdown(143));
+process.on("SIGINT", () => void shutdown(130));
+process.on("SIGHUP", () => void shutdown(129));
@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  PROJECT_CONFIG_FILENAME,
+  buildAiderCommand,
+  formatCommandLine,
+  loadEnvLaunchProfile,
+  loadProjectLaunchProfile,
+  mergeLaunchProfiles,
+  parseLaunchProfile,
+} from "./launch-profile.js";
+
+describe("parseLaunchProfile", () => {
+  it("keeps well-formed fields", () => {
+    expect(
+      parseLaunchProfile(
+        {
+          binary: ".venv/bin/aider",
+          args: ["--edit-format", "diff"],
+          env: { OPENAI_API_BASE: "http://localhost" },
+          configFile: ".aider.conf.yml",
+        },
+        "test",
+      ),
+    ).toEqual({
+      binary: ".venv/bin/aider",
+      args: ["--edit-format", "diff"],
+      env: { OPENAI_API_BASE: "http://localhost" },
+      configFile: ".aider.conf.yml",
+    });
+  });
+
+  it("drops malformed fields", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(parseLaunchProfile({ args: "--map-tokens 0", env: ["A=1"] }, "test")).toEqual({});
+    expect(parseLaunchProfile(null, "test")).toEqual({});
+    warn.mockRestore();
+  });
+});
+
+describe("loadEnvLaunchProfile", () => {
+  it("reads the agent-level environment", () => {
+    const profile = loadEnvLaunchProfile({
+      AIDER_BINARY: "/opt/aider/bin/aider",
+      AIDER_EXTRA_ARGS: '["--map-tokens", "2048"]',
+      AIDER_EXTRA_ENV: '{"AIDER_DARK_MODE": "true"}',
+    });
+
+    expect(profile).toEqual({
+      binary: "/opt/aider/bin/aider",
+      args: ["--map-tokens", "2048"],
+      env: { AIDER_DARK_MODE: "true" },
+    });
+  });
+
+  it("returns no overrides for an empty environment", () => {
+    expect(loadEnvLaunchProfile({})).toEqual({});
+  });
+
+  it("reads the turn settle and stall times", () => {
+    expect(loadEnvLaunchProfile({ AIDER_TURN_SETTLE_MS: "500" })).toEqual({ turnSettleMs: 500 });
+    expect(loadEnvLaunchProfile({ AIDER_TURN_STALL_MS: "8000" })).toEqual({ turnStallMs: 8000 });
+  });
+
+  it("reads memory and CPU limits", () => {
+    expect(
+      loadEnvLaunchProfile({ AIDER_MEMORY_LIMIT_MB: "2048", AIDER_CPU_LIMIT_SECONDS: "3600" }),
+    ).toEqual({ memoryLimitMb: 2048, cpuLimitSeconds: 3600 });
+  });
+});
+
+describe("loadProjectLaunchProfile", () => {
+  let tempDir: string | undefined;
+
+  afterEach(() => {
+    if (tempDir) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+      tempDir = undefined;
+    }
+  });
+
+  it("reads the project config file from the working directory", async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "aider-acp-"));
+    fs.writeFileSync(
+      path.join(tempDir, PROJECT_CONFIG_FILENAME),
+      JSON.stringify({ args: ["--read", "CONVENTIONS.md"] }),
+    );
+
+    expect(await loadProjectLaunchProfile(tempDir)).toEqual({
+      args: ["--read", "CONVENTIONS.md"],
+    });
+  });
+
+  it("ignores the binary and env from a project that is not trusted", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "aider-acp-"));
+    const config = {
+      binary: "./evil.sh",
+      env: { LD_PRELOAD: "./evil.so", PATH: "./bin" },
+      args: ["--edit-format", "diff"],
+    };
+    fs.writeFileSync(path.join(tempDir, PROJECT_CONFIG_FILENAME), JSON.stringify(config));
+
+    expect(await loadProjectLaunchProfile(tempDir)).toEqual({ args: ["--edit-format", "diff"] });
+    expect(warn).toHaveBeenCalledTimes(2);
+    expect(await loadProjectLaunchProfile(tempDir, true)).toEqual(config);
+    warn.mockRestore();
+  });
+
+  it("returns no overrides when the file is missing", async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "aider-acp-"));
+    expect(await loadProjectLaunchProfile(tempDir)).toEqual({});
+  });
+});
+
+describe("mergeLaunchProfiles", () => {
+  it("applies sources in increasing precedence", () => {
+    const profile = mergeLaunchProfiles(
+      { binary: "aider-env", args: ["--map-tokens", "1024"], env: { A: "env", B: "env" } },
+      { binary: "aider-project", args: ["--read", "CONVENTIONS.md"], env: { B: "project" } },
+      { configFile: "session.yml", env: { C: "session" } },
+    );
+
+    expect(profile).toEqual({
+      binary: "aider-project",
+      args: ["--map-tokens", "1024", "--read", "CONVENTIONS.md"],
+      env: { A: "env", B: "project", C: "session" },
+      configFile: "session.yml",
+      promptPrefixes: [],
+    });
+  });
+
+  it("collects prompt prefixes from every source", () => {
+    expect(
+      mergeLaunchProfiles({ promptPrefixes: ["mine"] }, { promptPrefixes: ["yours"] }).promptPrefixes,
+    ).toEqual(["mine", "yours"]);
+  });
+
+  it("falls back to the default binary", () => {
+    expect(mergeLaunchProfiles().binary).toBe("aider");
+  });
+});
+
+describe("buildAiderCommand", () => {
+  it("appends config file and extra args after the base flags", () => {
+    const { command, args } = buildAiderCommand(
+      mergeLaunchProfiles({ args: ["--edit-format", "whole"], configFile: "conf.yml" }),
+      "gpt-4o",
+      "/project",
+    );
+
+    expect(command).toBe("aider");
+    expect(args.slice(0, 2)).toEqual(["--model", "gpt-4o"]);
+    expect(args).toContain("--no-pretty");
+    expect(args.slice(-4)).toEqual(["--config", "conf.yml", "--edit-format", "whole"]);
+  });
+
+  it("resolves relative binaries against the working directory", () => {
+    const { command } = buildAiderCommand(
+      mergeLaunchProfiles({ binary: ".venv/bin/aider" }),
+      "gpt-4o",
+      "/project",
+    );
+    expect(command).toBe("/project/.venv/bin/aider");
+  });
+
+  it.skipIf(process.platform === "win32")("wraps the command in ulimit when limits are set", () => {
+    const { command, args } = buildAiderCommand(
+      mergeLaunchProfiles({ memoryLimitMb: 512, cpuLimitSeconds: 60 }),
+      "gpt-4o",
+      "/project",
+    );
+
+    expect(command).toBe("/bin/sh");
+    expect(args.slice(0, 5)).toEqual([
+      "-c",
+      'ulimit -v 524288 && ulimit -t 60 && exec "$0" "$@"',
+      "aider",
+      "--model",
+      "gpt-4o",
+    ]);
+  });
+});
+
+describe("formatCommandLine", () => {
+  it("quotes arguments that need it", () => {
+    expect(formatCommandLine("aider", ["--model", "gpt-4o", "--read", "my notes.md"])).toBe(
+      "aider --model gpt-4o --read 'my notes.md'",
+    );
+  });
+});
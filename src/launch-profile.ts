@@ -0,0 +1,246 @@
+import * as fs from "fs";
+import * as path from "path";
+
+export const PROJECT_CONFIG_FILENAME = ".aider-acp.json";
+
+// Flags the output parser relies on. Extra args are appended after these, so
+// a profile can still flip the commit/test defaults (e.g. `--auto-commits`).
+const BASE_AIDER_ARGS = [
+  "--no-pretty",
+  "--no-show-model-warnings",
+  "--no-browser",
+  "--no-auto-commits",
+  "--no-auto-test",
+  "--no-dirty-commits",
+];
+
+export interface AiderLaunchProfile {
+  binary: string;
+  args: string[];
+  env: Record<string, string>;
+  configFile?: string;
+  // Extra prompt prefixes that mark the end of a turn (see turn-framing.ts).
+  promptPrefixes?: string[];
+  // How long Aider must stay quiet after its prompt before the turn ends.
+  turnSettleMs?: number;
+  // The same, while the model's reply is still streaming (see turn-framing.ts).
+  turnStallMs?: number;
+  // Applied with `ulimit` before exec'ing Aider; ignored on Windows.
+  memoryLimitMb?: number;
+  cpuLimitSeconds?: number;
+}
+
+export type LaunchProfileOverrides = Partial<AiderLaunchProfile>;
+
+export const DEFAULT_LAUNCH_PROFILE: AiderLaunchProfile = {
+  binary: "aider",
+  args: [],
+  env: {},
+};
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    Object.values(value).every((item) => typeof item === "string")
+  );
+}
+
+/**
+ * Validates an untyped launch profile (project file or `_meta.aider`),
+ * dropping fields with the wrong shape.
+ */
+export function parseLaunchProfile(candidate: unknown, source: string): LaunchProfileOverrides {
+  if (!candidate || typeof candidate !== "object" || Array.isArray(candidate)) {
+    return {};
+  }
+
+  const raw = candidate as Record<string, unknown>;
+  const overrides: LaunchProfileOverrides = {};
+
+  if (typeof raw.binary === "string" && raw.binary.trim().length > 0) {
+    overrides.binary = raw.binary.trim();
+  }
+  if (isStringArray(raw.args)) {
+    overrides.args = raw.args;
+  } else if (raw.args !== undefined) {
+    console.warn(`Ignoring "args" from ${source}: expected an array of strings.`);
+  }
+  if (isStringRecord(raw.env)) {
+    overrides.env = raw.env;
+  } else if (raw.env !== undefined) {
+    console.warn(`Ignoring "env" from ${source}: expected an object of strings.`);
+  }
+  if (typeof raw.configFile === "string" && raw.configFile.trim().length > 0) {
+    overrides.configFile = raw.configFile.trim();
+  }
+  if (isStringArray(raw.promptPrefixes)) {
+    overrides.promptPrefixes = raw.promptPrefixes;
+  } else if (raw.promptPrefixes !== undefined) {
+    console.warn(`Ignoring "promptPrefixes" from ${source}: expected an array of strings.`);
+  }
+  for (const key of ["turnSettleMs", "turnStallMs", "memoryLimitMb", "cpuLimitSeconds"] as const) {
+    if (isPositiveNumber(raw[key])) {
+      overrides[key] = raw[key];
+    } else if (raw[key] !== undefined) {
+      console.warn(`Ignoring "${key}" from ${source}: expected a positive number.`);
+    }
+  }
+
+  return overrides;
+}
+
+/**
+ * Reads AIDER_BINARY, AIDER_EXTRA_ARGS (JSON array), AIDER_EXTRA_ENV (JSON object),
+ * AIDER_CONFIG_FILE, AIDER_PROMPT_PREFIXES (JSON array), AIDER_TURN_SETTLE_MS,
+ * AIDER_TURN_STALL_MS, AIDER_MEMORY_LIMIT_MB and AIDER_CPU_LIMIT_SECONDS.
+ */
+export function loadEnvLaunchProfile(env: NodeJS.ProcessEnv = process.env): LaunchProfileOverrides {
+  const candidate: Record<string, unknown> = {
+    binary: env.AIDER_BINARY,
+    configFile: env.AIDER_CONFIG_FILE,
+    turnSettleMs: env.AIDER_TURN_SETTLE_MS ? Number(env.AIDER_TURN_SETTLE_MS) : undefined,
+    turnStallMs: env.AIDER_TURN_STALL_MS ? Number(env.AIDER_TURN_STALL_MS) : undefined,
+    memoryLimitMb: env.AIDER_MEMORY_LIMIT_MB ? Number(env.AIDER_MEMORY_LIMIT_MB) : undefined,
+    cpuLimitSeconds: env.AIDER_CPU_LIMIT_SECONDS ? Number(env.AIDER_CPU_LIMIT_SECONDS) : undefined,
+  };
+
+  for (const [key, variable] of [
+    ["args", "AIDER_EXTRA_ARGS"],
+    ["env", "AIDER_EXTRA_ENV"],
+    ["promptPrefixes", "AIDER_PROMPT_PREFIXES"],
+  ] as const) {
+    const value = env[variable];
+    if (!value) continue;
+    try {
+      candidate[key] = JSON.parse(value) as unknown;
+    } catch (error) {
+      console.warn(`Failed to parse ${variable} JSON; ignoring it.`, error);
+    }
+  }
+
+  return parseLaunchProfile(candidate, "the agent environment");
+}
+
+// Fields that decide what actually runs: the executable, and variables such as
+// PATH, LD_PRELOAD or PYTHONPATH that change which code it loads.
+const TRUSTED_PROJECT_FIELDS = ["binary", "env"] as const;
+
+/**
+ * Reads `.aider-acp.json` from the working directory. The file comes with the
+ * repository, so unless `trusted` is set it cannot change the binary or env.
+ */
+export async function loadProjectLaunchProfile(
+  workingDir: string,
+  trusted = false,
+): Promise<LaunchProfileOverrides> {
+  const configPath = path.join(workingDir, PROJECT_CONFIG_FILENAME);
+
+  let contents: string;
+  try {
+    contents = await fs.promises.readFile(configPath, "utf8");
+  } catch {
+    return {};
+  }
+
+  let overrides: LaunchProfileOverrides;
+  try {
+    overrides = parseLaunchProfile(JSON.parse(contents) as unknown, configPath);
+  } catch (error) {
+    console.warn(`Failed to parse ${configPath}; ignoring it.`, error);
+    return {};
+  }
+
+  if (!trusted) {
+    for (const key of TRUSTED_PROJECT_FIELDS) {
+      if (overrides[key] !== undefined) {
+        console.warn(
+          `Ignoring "${key}" from ${configPath}: set AIDER_TRUST_PROJECT_CONFIG=1 to let projects set it.`,
+        );
+        delete overrides[key];
+      }
+    }
+  }
+  return overrides;
+}
+
+/**
+ * Merges launch profile sources in increasing precedence. Scalars are replaced,
+ * args are appended (Aider lets later flags win) and env maps are merged.
+ */
+export function mergeLaunchProfiles(
+  ...sources: LaunchProfileOverrides[]
+): AiderLaunchProfile {
+  return sources.reduce<AiderLaunchProfile>(
+    (profile, source) => ({
+      binary: source.binary ?? profile.binary,
+      args: [...profile.args, ...(source.args ?? [])],
+      env: { ...profile.env, ...source.env },
+      configFile: source.configFile ?? profile.configFile,
+      promptPrefixes: [...(profile.promptPrefixes ?? []), ...(source.promptPrefixes ?? [])],
+      turnSettleMs: source.turnSettleMs ?? profile.turnSettleMs,
+      turnStallMs: source.turnStallMs ?? profile.turnStallMs,
+      memoryLimitMb: source.memoryLimitMb ?? profile.memoryLimitMb,
+      cpuLimitSeconds: source.cpuLimitSeconds ?? profile.cpuLimitSeconds,
+    }),
+    { ...DEFAULT_LAUNCH_PROFILE, args: [], env: {} },
+  );
+}
+
+export function buildAiderCommand(
+  profile: AiderLaunchProfile,
+  model: string,
+  workingDir: string,
+): { command: string; args: string[] } {
+  const command =
+    profile.binary.includes("/") && !path.isAbsolute(profile.binary)
+      ? path.resolve(workingDir, profile.binary)
+      : profile.binary;
+
+  const args = ["--model", model, ...BASE_AIDER_ARGS];
+  if (profile.configFile) {
+    args.push("--config", profile.configFile);
+  }
+  args.push(...profile.args);
+
+  return applyResourceLimits(profile, command, args);
+}
+
+// Node cannot set rlimits on a child, so the limits go through a shell that
+// execs Aider, keeping the same pid.
+function applyResourceLimits(
+  profile: AiderLaunchProfile,
+  command: string,
+  args: string[],
+): { command: string; args: string[] } {
+  const limits: string[] = [];
+  if (profile.memoryLimitMb) {
+    limits.push(`ulimit -v ${Math.floor(profile.memoryLimitMb * 1024)}`);
+  }
+  if (profile.cpuLimitSeconds) {
+    limits.push(`ulimit -t ${Math.ceil(profile.cpuLimitSeconds)}`);
+  }
+  if (limits.length === 0 || process.platform === "win32") {
+    return { command, args };
+  }
+
+  return {
+    command: "/bin/sh",
+    args: ["-c", `${limits.join(" && ")} && exec "$0" "$@"`, command, ...args],
+  };
+}
+
+export function formatCommandLine(command: string, args: string[]): string {
+  return [command, ...args]
+    .map((part) => (/^[\w@%+=:,./-]+$/.test(part) ? part : `'${part.replace(/'/g, "'\\''")}'`))
+    .join(" ");
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import { AiderOutputStream } from "./output-stream.js";
+
+const editLines = [
+  "app.py\n",
+  "```\n",
+  "<<<<<<< SEARCH\n",
+  "a = 1\n",
+  "=======\n",
+  "a = 2\n",
+  ">>>>>>> REPLACE\n",
+  "```\n",
+];
+
+describe("AiderOutputStream", () => {
+  it("streams an unfinished line once it can no longer become a file path", () => {
+    const stream = new AiderOutputStream();
+
+    expect(stream.push("First line\nSecond").userMessage).toBe("First line\n");
+    expect(stream.push(" li").userMessage).toBe("Second li");
+    expect(stream.push("ne\n").userMessage).toBe("ne\n");
+    expect(stream.hasPending()).toBe(false);
+  });
+
+  it("sends the rest of a streamed line as plain text", () => {
+    const stream = new AiderOutputStream();
+
+    expect(stream.push("The log ends with ").userMessage).toBe("The log ends with ");
+    const output = stream.push("Error: none\nAll good now.\n");
+    expect(output.userMessage).toBe("Error: none\nAll good now.\n");
+    expect(output.segments).toEqual([{ kind: "markdown", text: "Error: none\nAll good now.\n" }]);
+  });
+
+  it("holds an unfinished line that may be Aider's own", () => {
+    const stream = new AiderOutputStream();
+
+    expect(stream.push("All done.\nask multi> ").userMessage).toBe("All done.\n");
+    expect(stream.push("").userMessage).toBe("");
+    expect(stream.hasPending()).toBe(true);
+  });
+
+  it("emits an edit block split across chunks once, when it is complete", () => {
+    const stream = new AiderOutputStream();
+    const chunks = [
+      "I'll change it.\napp",
+      ".py\n```\n<<<<<<< SEA",
+      "RCH\na = 1\n====",
+      "===\na = 2\n>>>>>>> REPLACE\n``",
+      "`\nAll done.\n",
+    ];
+
+    const outputs = chunks.map((chunk) => stream.push(chunk));
+
+    expect(outputs.map((output) => output.editBlocks.length)).toEqual([0, 0, 0, 0, 1]);
+    expect(outputs[4].editBlocks[0]).toEqual({
+      format: "diff",
+      path: "app.py",
+      oldText: "a = 1",
+      newText: "a = 2",
+    });
+    const text = outputs.map((output) => output.userMessage).join("");
+    expect(text).toBe("I'll change it.\nAll done.\n");
+    expect(text).not.toContain("SEARCH");
+  });
+
+  it("releases a one-word line once the next line is plain text", () => {
+    const stream = new AiderOutputStream();
+
+    expect(stream.push("Done.\n").userMessage).toBe("");
+    expect(stream.push("Anything").userMessage).toBe("");
+    expect(stream.push(" else").userMessage).toBe("Done.\nAnything else");
+    expect(stream.push("?\n").userMessage).toBe("?\n");
+  });
+
+  it("holds an unfinished word that may still become a file path", () => {
+    const stream = new AiderOutputStream();
+
+    expect(stream.push("app").userMessage).toBe("");
+    const output = stream.push(editLines[0].slice(3) + editLines.slice(1).join(""));
+    expect(output.editBlocks).toHaveLength(1);
+    expect(output.userMessage).toBe("");
+  });
+
+  it("waits for the line after a file path in case a fence follows", () => {
+    const stream = new AiderOutputStream();
+
+    expect(stream.push(editLines[0]).editBlocks).toEqual([]);
+    expect(stream.hasPending()).toBe(true);
+
+    const output = stream.push(editLines.slice(1).join(""));
+    expect(output.editBlocks).toHaveLength(1);
+    expect(output.codeBlocks).toEqual([]);
+  });
+
+  it("sends blank lines with the text that follows them", () => {
+    const stream = new AiderOutputStream();
+
+    expect(stream.push("First paragraph.\n\n").userMessage).toBe("First paragraph.\n");
+    expect(stream.push("Second paragraph.\n").userMessage).toBe("\nSecond paragraph.\n");
+  });
+
+  it("holds a suggested command repeated before Aider's question", () => {
+    const stream = new AiderOutputStream();
+
+    expect(stream.push("Run:\n\n```sh\nnpm test\n```\n").shellCommands).toHaveLength(1);
+    expect(stream.push("\nnpm test\n").userMessage).toBe("");
+    expect(stream.hasPending()).toBe(true);
+    expect(stream.push("Run shell command? (Y)es/(N)o [Yes]: ").userMessage).toBe("");
+    expect(stream.flush().userMessage.trim()).toBe("");
+  });
+
+  it("releases an unfinished block as text when flushed", () => {
+    const stream = new AiderOutputStream();
+
+    expect(stream.push("```python\nprint('hi')\n").userMessage).toBe("");
+    const output = stream.flush();
+    expect(output.userMessage).toBe("```python\nprint('hi')\n");
+    expect(stream.hasPending()).toBe(false);
+  });
+});
@@ -0,0 +1,175 @@
+import {
+  isAiderChrome,
+  isPotentialFilePath,
+  parseAiderOutput,
+  type ParsedAiderOutput,
+} from "./aider-output-parser.js";
+
+const FENCE_PATTERN = /^[ \t]*```/;
+const FENCE_START = /^[ \t]*`/;
+
+export interface StreamedOutput extends ParsedAiderOutput {
+  // The released text the parse was made from.
+  text: string;
+}
+
+/**
+ * Feeds Aider's output to `parseAiderOutput` in pieces that can be parsed on
+ * their own. Stdout arrives in arbitrary chunks, so a fenced block or a
+ * SEARCH/REPLACE edit can be split across several of them; this holds back
+ * any open fence, a file path line that may be about to introduce one and
+ * trailing blank lines, and releases everything else right away. An unfinished
+ * line goes out as it streams once it can no longer become a path, a fence or
+ * one of Aider's own lines; the rest of it then follows as plain text.
+ * Lines repeating a suggested shell command are held too, since Aider shows
+ * them again before asking to run it.
+ */
+export class AiderOutputStream {
+  private pending = "";
+  private readonly suggestedCommands = new Set<string>();
+  // The last release stopped inside a line, so the next one starts with its rest.
+  private midLine = false;
+
+  public push(chunk: string): StreamedOutput {
+    this.pending += chunk;
+    const releaseEnd = this.findReleaseEnd();
+    const released = this.pending.slice(0, releaseEnd);
+    this.pending = this.pending.slice(releaseEnd);
+
+    return this.parse(released);
+  }
+
+  // Parses whatever is left, complete or not. Call it when the turn ends.
+  public flush(): StreamedOutput {
+    const released = this.pending;
+    this.pending = "";
+    const output = this.parse(released);
+    // Aider starts a new line for whatever it prints next.
+    this.midLine = false;
+    return output;
+  }
+
+  public hasPending(): boolean {
+    return this.pending.length > 0;
+  }
+
+  private parse(released: string): StreamedOutput {
+    let continuation = "";
+    let rest = released;
+    if (this.midLine) {
+      const newline = released.indexOf("\n");
+      continuation = newline === -1 ? released : released.slice(0, newline + 1);
+      rest = released.slice(continuation.length);
+    }
+    if (released.length > 0) {
+      this.midLine = !released.endsWith("\n");
+    }
+
+    const parsed = parseAiderOutput(rest);
+    for (const shellCommand of parsed.shellCommands) {
+      for (const line of shellCommand.command.split("\n")) {
+        if (line.trim().length > 0) {
+          this.suggestedCommands.add(line.trim());
+        }
+      }
+    }
+    if (continuation.length === 0) {
+      return { ...parsed, text: released };
+    }
+
+    const [first, ...segments] = parsed.segments;
+    const merged =
+      first?.kind === "markdown"
+        ? [{ kind: "markdown" as const, text: continuation + first.text }, ...segments]
+        : [{ kind: "markdown" as const, text: continuation }, ...parsed.segments];
+    return {
+      ...parsed,
+      segments: merged,
+      userMessage: continuation + parsed.userMessage,
+      text: released,
+    };
+  }
+
+  private findReleaseEnd(): number {
+    let releaseEnd = 0;
+    let insideFence = false;
+    let lineStart = 0;
+    // End of a file path line that may be about to introduce an edit's fence.
+    let pathEnd = -1;
+
+    while (lineStart < this.pending.length) {
+      const newline = this.pending.indexOf("\n", lineStart);
+      if (newline === -1) {
+        if (insideFence || !this.canReleasePartialLine(lineStart)) break;
+        // Text after the path line means it was just text. A question keeps it
+        // held, since Aider shows what the question is about right before it.
+        const heldBefore = this.pending.slice(Math.max(releaseEnd, pathEnd), lineStart);
+        if (heldBefore.trim().length === 0) {
+          releaseEnd = this.pending.length;
+        }
+        break;
+      }
+
+      const lineEnd = newline + 1;
+      const line = this.pending.slice(lineStart, newline).replace(/\r$/, "");
+      const continuesLine = this.midLine && lineStart === 0;
+      lineStart = lineEnd;
+
+      if (continuesLine) {
+        releaseEnd = lineEnd;
+        continue;
+      }
+
+      if (FENCE_PATTERN.test(line)) {
+        insideFence = !insideFence;
+        pathEnd = -1;
+        if (!insideFence) {
+          releaseEnd = lineEnd;
+        }
+        continue;
+      }
+
+      // Blank lines go out with what follows them, so a paragraph break is
+      // never sent on its own.
+      const trimmed = line.trim();
+      if (insideFence || trimmed.length === 0) {
+        continue;
+      }
+      if (pathEnd !== -1) {
+        releaseEnd = Math.max(releaseEnd, pathEnd);
+        pathEnd = -1;
+      }
+      // Aider names the file on the line before an edit's opening fence.
+      if (isPotentialFilePath(trimmed)) {
+        pathEnd = lineEnd;
+        continue;
+      }
+      if (!this.suggestedCommands.has(trimmed)) {
+        releaseEnd = lineEnd;
+      }
+    }
+
+    return releaseEnd;
+  }
+
+  private canReleasePartialLine(lineStart: number): boolean {
+    if (this.midLine && lineStart === 0) {
+      return true;
+    }
+    const line = this.pending.slice(lineStart).replace(/\r$/, "");
+    const trimmed = line.trim();
+    if (trimmed.length === 0) {
+      return false;
+    }
+    // A path has no whitespace, so a word followed by a space cannot become one.
+    if (!/\S\s/.test(line.trimStart()) || FENCE_START.test(line)) {
+      return false;
+    }
+    for (const command of this.suggestedCommands) {
+      if (command.startsWith(trimmed)) {
+        return false;
+      }
+    }
+    return !isAiderChrome(line);
+  }
+}
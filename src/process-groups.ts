@@ -0,0 +1,38 @@
+import { ChildProcess } from "child_process";
+
+// Aider and the commands the agent runs get their own process groups, which
+// the agent's group signals do not reach. Groups still alive when the agent
+// exits are killed on the way out; a SIGKILLed agent cannot do that, but Aider
+// exits at its next read from the closed stdin, leaving only commands it
+// started with /run.
+const liveProcesses = new Set<ChildProcess>();
+let exitHookInstalled = false;
+
+// Kills the child's group if it is still running when the agent exits.
+export function killGroupOnExit(child: ChildProcess): void {
+  liveProcesses.add(child);
+  child.once("close", () => liveProcesses.delete(child));
+  if (exitHookInstalled) return;
+  exitHookInstalled = true;
+  process.once("exit", () => {
+    for (const live of liveProcesses) {
+      signalProcessGroup(live, "SIGKILL");
+    }
+  });
+}
+
+export function signalProcessGroup(child: ChildProcess, signal: NodeJS.Signals): void {
+  if (!child.pid) return;
+  try {
+    if (process.platform === "win32") {
+      child.kill(signal);
+    } else {
+      process.kill(-child.pid, signal);
+    }
+  } catch (error) {
+    // ESRCH: the group is already gone and "close" reports it.
+    if ((error as NodeJS.ErrnoException).code !== "ESRCH") {
+      console.warn(`Failed to send ${signal} to process group ${child.pid}:`, error);
+    }
+  }
+}
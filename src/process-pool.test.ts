@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import { AiderState, type AiderBackendOptions } from "./aider-backend.js";
+import { AiderProcessPool, loadProcessPoolOptions } from "./process-pool.js";
+import { ScriptedAiderBackend } from "./scripted-backend.js";
+
+function createFactory(): {
+  factory: (options: AiderBackendOptions) => ScriptedAiderBackend;
+  created: Array<{ options: AiderBackendOptions; backend: ScriptedAiderBackend }>;
+} {
+  const created: Array<{ options: AiderBackendOptions; backend: ScriptedAiderBackend }> = [];
+  const factory = (options: AiderBackendOptions): ScriptedAiderBackend => {
+    const backend = new ScriptedAiderBackend(
+      { events: [{ type: "stdout", data: "Aider v0.86.1\n> " }, { type: "input" }] },
+      { timeScale: 0, turnFraming: { settleMs: 0 } },
+    );
+    created.push({ options, backend });
+    return backend;
+  };
+  return { factory, created };
+}
+
+const tick = (ms = 0): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+const projectA: AiderBackendOptions = { workingDir: "/repo/a", model: "gpt-4o" };
+const projectB: AiderBackendOptions = { workingDir: "/repo/b", model: "gpt-4o" };
+
+describe("AiderProcessPool", () => {
+  it("creates a fresh backend per request when the pool is disabled", async () => {
+    const { factory, created } = createFactory();
+    const pool = new AiderProcessPool(factory, { size: 0 });
+
+    const first = pool.acquire(projectA);
+    await tick();
+
+    expect(first.warm).toBe(false);
+    expect(first.backend.getState()).toBe(AiderState.STARTING);
+    expect(created).toHaveLength(1);
+    expect(pool.getWarmCount()).toBe(0);
+  });
+
+  it("hands out a pre-started backend for the same project and model and refills", async () => {
+    const { factory, created } = createFactory();
+    const pool = new AiderProcessPool(factory, { size: 1 });
+
+    pool.acquire(projectA);
+    await tick(10);
+    expect(pool.getWarmCount()).toBe(1);
+
+    const second = pool.acquire(projectA);
+    expect(second.warm).toBe(true);
+    expect(second.backend.getState()).toBe(AiderState.READY);
+    expect(pool.getWarmCount()).toBe(1);
+    expect(created).toHaveLength(3);
+
+    const other = pool.acquire({ ...projectA, model: "claude-3-5-sonnet" });
+    expect(other.warm).toBe(false);
+    await pool.drain();
+  });
+
+  it("replays a warm backend's start-up output to the session that takes it", async () => {
+    const { factory } = createFactory();
+    const pool = new AiderProcessPool(factory, { size: 1 });
+
+    pool.acquire(projectA);
+    await tick(10);
+
+    const { backend, warm } = pool.acquire(projectA);
+    expect(warm).toBe(true);
+    const received: string[] = [];
+    backend.on("data", (chunk: string) => received.push(`data:${chunk}`));
+    backend.on("turn_completed", (output: string) => received.push(`turn:${output}`));
+    await tick();
+
+    expect(received).toEqual(["data:Aider v0.86.1\n> ", "turn:Aider v0.86.1\n> "]);
+    await pool.drain();
+  });
+
+  it("stops warm backends that stay idle", async () => {
+    const { factory, created } = createFactory();
+    const pool = new AiderProcessPool(factory, { size: 1, idleMs: 20 });
+
+    pool.acquire(projectA);
+    await tick(5);
+    expect(pool.getWarmCount()).toBe(1);
+
+    await tick(40);
+    expect(pool.getWarmCount()).toBe(0);
+    expect(created[1].backend.remainingEvents()).toBe(1);
+    expect(pool.getLiveCount()).toBe(1);
+  });
+
+  it("evicts warm backends to stay under the process cap and refuses beyond it", async () => {
+    const { factory } = createFactory();
+    const pool = new AiderProcessPool(factory, { size: 1, maxProcesses: 2 });
+
+    pool.acquire(projectA);
+    await tick(5);
+    expect(pool.getLiveCount()).toBe(2);
+
+    const forB = pool.acquire(projectB);
+    expect(forB.warm).toBe(false);
+    expect(pool.getWarmCount()).toBe(0);
+    expect(pool.getLiveCount()).toBe(2);
+
+    expect(() => pool.acquire(projectA)).toThrow("limit of 2 Aider processes");
+  });
+
+  it("frees capacity when a backend exits", async () => {
+    const { factory } = createFactory();
+    const pool = new AiderProcessPool(factory, { maxProcesses: 1 });
+
+    const { backend } = pool.acquire(projectA);
+    backend.start();
+    expect(() => pool.acquire(projectB)).toThrow();
+
+    backend.stop();
+    expect(pool.acquire(projectB).warm).toBe(false);
+  });
+});
+
+describe("loadProcessPoolOptions", () => {
+  it("reads sizes and the idle timeout in seconds", () => {
+    expect(
+      loadProcessPoolOptions({
+        AIDER_POOL_SIZE: "2",
+        AIDER_POOL_IDLE_TIMEOUT: "30",
+        AIDER_MAX_PROCESSES: "6",
+      }),
+    ).toEqual({ size: 2, idleMs: 30_000, maxProcesses: 6 });
+  });
+
+  it("ignores invalid values", () => {
+    expect(loadProcessPoolOptions({ AIDER_POOL_SIZE: "-1", AIDER_MAX_PROCESSES: "many" })).toEqual({
+      size: 0,
+      idleMs: 600_000,
+      maxProcesses: 0,
+    });
+  });
+});
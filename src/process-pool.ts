@@ -0,0 +1,252 @@
+import { AiderBackend, AiderBackendFactory, AiderBackendOptions } from "./aider-backend.js";
+
+export interface ProcessPoolOptions {
+  // Pre-started processes kept per working directory, model and launch profile. 0 disables the pool.
+  size: number;
+  // A warm process nobody picked up within this long is stopped. 0 keeps it forever.
+  idleMs: number;
+  // Live Aider processes across all sessions, warm ones included. 0 means no cap.
+  maxProcesses: number;
+}
+
+export const DEFAULT_PROCESS_POOL: ProcessPoolOptions = {
+  size: 0,
+  idleMs: 10 * 60_000,
+  maxProcesses: 0,
+};
+
+function readCount(value: string | undefined, variable: string): number | undefined {
+  if (value === undefined || value.trim().length === 0) {
+    return undefined;
+  }
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    console.warn(`Ignoring invalid ${variable} value "${value}".`);
+    return undefined;
+  }
+  return count;
+}
+
+/**
+ * Reads AIDER_POOL_SIZE, AIDER_POOL_IDLE_TIMEOUT (seconds) and AIDER_MAX_PROCESSES.
+ */
+export function loadProcessPoolOptions(env: NodeJS.ProcessEnv = process.env): ProcessPoolOptions {
+  const idleSeconds = readCount(env.AIDER_POOL_IDLE_TIMEOUT, "AIDER_POOL_IDLE_TIMEOUT");
+  return {
+    size: readCount(env.AIDER_POOL_SIZE, "AIDER_POOL_SIZE") ?? DEFAULT_PROCESS_POOL.size,
+    idleMs: idleSeconds !== undefined ? idleSeconds * 1000 : DEFAULT_PROCESS_POOL.idleMs,
+    maxProcesses:
+      readCount(env.AIDER_MAX_PROCESSES, "AIDER_MAX_PROCESSES") ?? DEFAULT_PROCESS_POOL.maxProcesses,
+  };
+}
+
+interface WarmProcess {
+  backend: AiderBackend;
+  startedAt: number;
+  idleTimer: NodeJS.Timeout | null;
+  // Nobody listens to a warm process yet; an unhandled "error" event would throw.
+  onError: (message: string) => void;
+  // Start-up output (banner, warnings, the first prompt) kept for the session that takes it.
+  buffered: Array<{ event: string; args: unknown[] }>;
+  recorders: Array<{ event: string; listener: (...args: unknown[]) => void }>;
+}
+
+const BUFFERED_EVENTS = ["data", "error", "turn_completed"];
+
+function poolKey(options: AiderBackendOptions): string {
+  return JSON.stringify([options.workingDir, options.model, options.launchProfile ?? null]);
+}
+
+/**
+ * Hands out Aider backends, keeping pre-started ones per working directory,
+ * model and launch profile so a new session does not wait for Aider's start-up
+ * and repo scan. Every backend it creates counts toward `maxProcesses` until
+ * it exits.
+ */
+export class AiderProcessPool {
+  private readonly factory: AiderBackendFactory;
+  private readonly options: ProcessPoolOptions;
+  private warm = new Map<string, WarmProcess[]>();
+  private live = new Set<AiderBackend>();
+  private draining = false;
+
+  constructor(factory: AiderBackendFactory, options: Partial<ProcessPoolOptions> = {}) {
+    this.factory = factory;
+    this.options = { ...DEFAULT_PROCESS_POOL, ...options };
+  }
+
+  /**
+   * Returns a warm backend when one matches, otherwise a new one that has not
+   * been started. Either way the pool is topped up in the background.
+   */
+  public acquire(options: AiderBackendOptions): { backend: AiderBackend; warm: boolean } {
+    const key = poolKey(options);
+    const entry = this.warm.get(key)?.shift();
+
+    if (entry) {
+      this.clearIdleTimer(entry);
+      entry.backend.removeListener("error", entry.onError);
+      for (const { event, listener } of entry.recorders) {
+        entry.backend.removeListener(event, listener);
+      }
+      this.replayToFirstListener(entry);
+      this.refill(key, options);
+      return { backend: entry.backend, warm: true };
+    }
+
+    if (!this.hasCapacity()) {
+      this.evictWarmProcess();
+    }
+    if (!this.hasCapacity()) {
+      throw new Error(
+        `Reached the limit of ${this.options.maxProcesses} Aider processes. Close a session or raise AIDER_MAX_PROCESSES.`,
+      );
+    }
+
+    const backend = this.create(options);
+    // Only start warming once the session's own process is counted.
+    setImmediate(() => this.refill(key, options));
+    return { backend, warm: false };
+  }
+
+  public getLiveCount(): number {
+    return this.live.size;
+  }
+
+  public getWarmCount(): number {
+    let count = 0;
+    for (const entries of this.warm.values()) {
+      count += entries.length;
+    }
+    return count;
+  }
+
+  // Stops every warm process and resolves once they have exited.
+  public drain(): Promise<void> {
+    this.draining = true;
+    const entries = [...this.warm.values()].flat();
+    this.warm.clear();
+
+    return Promise.all(
+      entries.map((entry) => {
+        this.clearIdleTimer(entry);
+        const exited = new Promise<void>((resolve) => entry.backend.once("exit", () => resolve()));
+        entry.backend.stop();
+        return exited;
+      }),
+    ).then(() => undefined);
+  }
+
+  private create(options: AiderBackendOptions): AiderBackend {
+    const backend = this.factory(options);
+    this.live.add(backend);
+    backend.once("exit", () => {
+      this.live.delete(backend);
+    });
+    return backend;
+  }
+
+  private hasCapacity(): boolean {
+    return this.options.maxProcesses === 0 || this.live.size < this.options.maxProcesses;
+  }
+
+  private refill(key: string, options: AiderBackendOptions): void {
+    if (this.draining || this.options.size === 0) return;
+
+    const entries = this.warm.get(key) ?? [];
+    this.warm.set(key, entries);
+
+    while (entries.length < this.options.size && this.hasCapacity()) {
+      const backend = this.create(options);
+      const entry: WarmProcess = {
+        backend,
+        startedAt: Date.now(),
+        idleTimer: null,
+        onError: (message) => console.warn("Pre-started Aider process reported:", message),
+        buffered: [],
+        recorders: BUFFERED_EVENTS.map((event) => ({
+          event,
+          listener: (...args: unknown[]) => entry.buffered.push({ event, args }),
+        })),
+      };
+      entries.push(entry);
+      backend.on("error", entry.onError);
+      for (const { event, listener } of entry.recorders) {
+        backend.on(event, listener);
+      }
+
+      // A warm process that dies is dropped, not replaced, so a broken setup
+      // does not turn into a respawn loop.
+      backend.once("exit", () => this.removeWarm(key, entry));
+      if (this.options.idleMs > 0) {
+        entry.idleTimer = setTimeout(() => {
+          entry.idleTimer = null;
+          this.removeWarm(key, entry);
+          backend.stop();
+        }, this.options.idleMs);
+        entry.idleTimer.unref?.();
+      }
+
+      backend.start();
+    }
+  }
+
+  /**
+   * Re-emits the buffered start-up events once the session adds its "data"
+   * listener, after the rest of its listeners are in place.
+   */
+  private replayToFirstListener(entry: WarmProcess): void {
+    const { backend, buffered } = entry;
+    if (buffered.length === 0) return;
+
+    const onNewListener = (event: string | symbol): void => {
+      if (event !== "data") return;
+      backend.removeListener("newListener", onNewListener);
+      queueMicrotask(() => {
+        for (const { event, args } of buffered) {
+          if (event === "error" && backend.listenerCount("error") === 0) continue;
+          backend.emit(event, ...args);
+        }
+      });
+    };
+    backend.on("newListener", onNewListener);
+  }
+
+  // Frees a slot for a session by stopping the warm process idle the longest.
+  private evictWarmProcess(): void {
+    let oldest: { key: string; entry: WarmProcess } | null = null;
+    for (const [key, entries] of this.warm) {
+      for (const entry of entries) {
+        if (!oldest || entry.startedAt < oldest.entry.startedAt) {
+          oldest = { key, entry };
+        }
+      }
+    }
+    if (!oldest) return;
+
+    this.removeWarm(oldest.key, oldest.entry);
+    this.clearIdleTimer(oldest.entry);
+    // Count it as gone right away so the session is not refused while Aider exits.
+    this.live.delete(oldest.entry.backend);
+    oldest.entry.backend.stop();
+  }
+
+  private removeWarm(key: string, entry: WarmProcess): void {
+    const entries = this.warm.get(key);
+    if (!entries) return;
+    const index = entries.indexOf(entry);
+    if (index !== -1) {
+      entries.splice(index, 1);
+    }
+    if (entries.length === 0) {
+      this.warm.delete(key);
+    }
+  }
+
+  private clearIdleTimer(entry: WarmProcess): void {
+    if (entry.idleTimer) {
+      clearTimeout(entry.idleTimer);
+      entry.idleTimer = null;
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import { describe, it, expect } from "vitest";
 import {
   parseSlashCommand,
+  encodeAiderInput,
   formatSlashCommand,
   getAllowedSlashCommandNames,
   type SlashCommandResult,
@@ -99,6 +100,13 @@ describe("parseSlashCommand", () => {
     expect((result as Extract<SlashCommandResult, { kind: "command" }>).args).toBe("file1.ts file2.ts");
   });
 
+  it("keeps line breaks in multi-line arguments", () => {
+    const result = parseSlashCommand("/ask why does this throw?\n```\n  throw err;\n```");
+    expect((result as Extract<SlashCommandResult, { kind: "command" }>).args).toBe(
+      "why does this throw?\n```\n  throw err;\n```",
+    );
+  });
+
   // Mode commands
   it("parses /ask command without arguments", () => {
     const result = parseSlashCommand("/ask");
@@ -281,3 +289,33 @@ describe("getAllowedSlashCommandNames", () => {
     expect(names1).toEqual(names2);
   });
 });
+
+describe("encodeAiderInput", () => {
+  it("leaves single-line input unchanged", () => {
+    expect(encodeAiderInput("Add a README")).toBe("Add a README");
+    expect(encodeAiderInput("/add src/index.ts")).toBe("/add src/index.ts");
+  });
+
+  it("wraps multi-line input in a multiline block", () => {
+    expect(encodeAiderInput("Fix this:\n```ts\nconst x = 1;\n```")).toBe(
+      "{\nFix this:\n```ts\nconst x = 1;\n```\n}",
+    );
+  });
+
+  it("normalizes Windows line endings", () => {
+    expect(encodeAiderInput("one\r\ntwo")).toBe("{\none\ntwo\n}");
+  });
+
+  it("uses a tagged block when the text contains a closing brace line", () => {
+    expect(encodeAiderInput("function f() {\n  return 1;\n}")).toBe(
+      "{acp\nfunction f() {\n  return 1;\n}\nacp}",
+    );
+    expect(encodeAiderInput("}\nacp}")).toBe("{acp1\n}\nacp}\nacp1}");
+  });
+
+  it("wraps a lone opening brace so it is sent literally", () => {
+    expect(encodeAiderInput("{")).toBe("{\n{\n}");
+    expect(encodeAiderInput("{json")).toBe("{\n{json\n}");
+    expect(encodeAiderInput("{ not a tag }")).toBe("{ not a tag }");
+  });
+});
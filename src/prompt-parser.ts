@@ -130,10 +130,12 @@ export function parseSlashCommand(input: string): SlashCommandResult | null {
     };
   }
 
-  const [firstToken, ...restTokens] = normalized.split(/\s+/);
+  const [firstToken] = normalized.split(/\s+/, 1);
   const commandName = firstToken.slice(1);
   const spec = slashCommandAllowlist[commandName];
-  const args = restTokens.join(" ").trim();
+  const rest = normalized.slice(firstToken.length).trim();
+  // Multi-line arguments (e.g. a snippet pasted after /ask) keep their formatting.
+  const args = rest.includes("\n") ? rest : rest.split(/\s+/).join(" ");
 
   if (!spec) {
     return {
@@ -156,6 +158,31 @@ export function formatSlashCommand(result: Extract<SlashCommandResult, { kind: "
   return `/${result.spec.name}${trailing}`;
 }
 
+/**
+ * Encodes a message for Aider's stdin, where every newline submits a turn.
+ * Multi-line text is wrapped in Aider's `{` … `}` block, switching to a tagged
+ * `{tag` … `tag}` block when the text itself contains a closing line.
+ */
+export function encodeAiderInput(text: string): string {
+  const normalized = text.replace(/\r\n?/g, "\n");
+  const lines = normalized.split("\n");
+
+  // A lone "{" or "{tag" would also open a multi-line block.
+  if (lines.length === 1 && !/^\{[A-Za-z0-9]*$/.test(normalized)) {
+    return normalized;
+  }
+
+  if (!lines.includes("}")) {
+    return `{\n${normalized}\n}`;
+  }
+
+  let tag = "acp";
+  for (let suffix = 1; lines.includes(`${tag}}`); suffix += 1) {
+    tag = `acp${suffix}`;
+  }
+  return `{${tag}\n${normalized}\n${tag}}`;
+}
+
 export function getAllowedSlashCommandNames(): string[] {
   return Object.keys(slashCommandAllowlist).sort((a, b) => a.localeCompare(b));
 }
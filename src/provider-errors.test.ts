@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import {
+  classifyProviderError,
+  formatProviderError,
+  mergeProviderErrors,
+  providerErrorStopReason,
+} from "./provider-errors.js";
+
+describe("classifyProviderError", () => {
+  it("reads a rate limit and how long to wait", () => {
+    const error = classifyProviderError(
+      'litellm.RateLimitError: OpenAIException - Rate limit reached for gpt-4o. Please try again in 6.5s.',
+    );
+    expect(error).toMatchObject({ kind: "rate_limit", retryAfterSeconds: 6.5 });
+    expect(providerErrorStopReason(error!)).toBe("end_turn");
+
+    expect(
+      classifyProviderError('litellm.RateLimitError: VertexAIException - {"status": "RESOURCE_EXHAUSTED", "retryDelay": "36s"}'),
+    ).toMatchObject({ kind: "rate_limit", retryAfterSeconds: 36 });
+  });
+
+  it("recognises authentication failures and missing keys", () => {
+    expect(
+      classifyProviderError(
+        'litellm.AuthenticationError: AnthropicException - {"type":"error","error":{"type":"authentication_error","message":"invalid x-api-key"}}',
+      )?.kind,
+    ).toBe("authentication");
+    expect(
+      classifyProviderError("Model gemini/gemini-2.5-flash: Missing these environment variables: GEMINI_API_KEY"),
+    ).toMatchObject({ kind: "authentication", missingKeys: ["GEMINI_API_KEY"] });
+  });
+
+  it("recognises context window, unknown model and connection failures", () => {
+    expect(
+      classifyProviderError("Your estimated chat context of 210,512 tokens exceeds the 200,000 token limit for claude!"),
+    ).toMatchObject({ kind: "context_window" });
+    expect(classifyProviderError("litellm.NotFoundError: model: gpt-9 not found")?.kind).toBe("model_not_found");
+    expect(classifyProviderError("litellm.BadRequestError: LLM Provider NOT provided.")?.kind).toBe(
+      "model_not_found",
+    );
+    expect(
+      classifyProviderError("litellm.APIConnectionError: OllamaException - [Errno 111] Connection refused")?.kind,
+    ).toBe("connection");
+    expect(providerErrorStopReason({ kind: "context_window", detail: "" })).toBe("max_tokens");
+    expect(providerErrorStopReason({ kind: "authentication", detail: "" })).toBe("end_turn");
+  });
+
+  it("leaves replies that only talk about errors alone", () => {
+    expect(classifyProviderError("I added a rate limit to the API and a check for the API key.")).toBeNull();
+    expect(classifyProviderError("Error: something else went wrong")).toBeNull();
+  });
+});
+
+describe("mergeProviderErrors", () => {
+  it("fills in details from later lines of the same failure", () => {
+    const first = { kind: "rate_limit" as const, detail: "litellm.RateLimitError: quota" };
+    const merged = mergeProviderErrors(first, {
+      kind: "rate_limit",
+      detail: "The API provider has rate limited you.",
+      retryAfterSeconds: 20,
+    });
+    expect(merged).toMatchObject({ detail: first.detail, retryAfterSeconds: 20 });
+    expect(mergeProviderErrors(first, { kind: "connection", detail: "x" })).toBe(first);
+  });
+});
+
+describe("formatProviderError", () => {
+  it("explains the failure and suggests what to do", () => {
+    const text = formatProviderError({
+      kind: "authentication",
+      detail: "Missing these environment variables:",
+      missingKeys: ["OPENAI_API_KEY"],
+    });
+    expect(text).toContain("❌ The model provider rejected the credentials.");
+    expect(text).toContain("Missing: OPENAI_API_KEY.");
+    expect(text).toContain("💡 Set a valid API key");
+  });
+});
@@ -0,0 +1,181 @@
+import type * as protocol from "@agentclientprotocol/sdk";
+
+export type ProviderErrorKind =
+  | "rate_limit"
+  | "authentication"
+  | "context_window"
+  | "model_not_found"
+  | "connection";
+
+// A failure of the model provider that Aider reported through LiteLLM.
+export interface ProviderError {
+  kind: ProviderErrorKind;
+  // The line Aider printed.
+  detail: string;
+  // Seconds the provider asked us to wait, when it said.
+  retryAfterSeconds?: number;
+  // Missing environment variables such as GEMINI_API_KEY.
+  missingKeys?: string[];
+}
+
+interface ProviderErrorClass {
+  kind: ProviderErrorKind;
+  patterns: RegExp[];
+  title: string;
+  action: string;
+  // Only an overflowing context has a stop reason of its own; the rest end the
+  // turn normally and are described by `_meta.aiderError`.
+  stopReason?: protocol.StopReason;
+}
+
+// LiteLLM raises these as e.g. "litellm.RateLimitError: ..."; traceback lines spell out the module.
+function litellm(name: string): RegExp {
+  return new RegExp(`litellm\\.(?:exceptions\\.)?${name}\\b`);
+}
+
+// Patterns stick to exception names and Aider's own wording so that a model reply
+// which merely talks about rate limits or API keys is not mistaken for a failure.
+const PROVIDER_ERROR_CLASSES: ProviderErrorClass[] = [
+  {
+    kind: "context_window",
+    patterns: [
+      litellm("ContextWindowExceededError"),
+      /estimated chat context of [\d,]+ tokens exceeds the [\d,]+ token limit/i,
+      /chat session is larger than the context window/i,
+      /maximum context length is \d+ tokens/i,
+    ],
+    title: "The conversation no longer fits in the model's context window.",
+    action: "Drop files you no longer need with /drop, clear the history with /clear, or switch to a model with a larger context window.",
+    stopReason: "max_tokens",
+  },
+  {
+    kind: "rate_limit",
+    patterns: [
+      litellm("RateLimitError"),
+      /API provider has rate limited you/i,
+      /"rate_limit_error"/,
+      /RESOURCE_EXHAUSTED/,
+      /exceeded your current quota/i,
+    ],
+    title: "The model provider is rate limiting requests.",
+    action: "Wait before sending the next prompt, or switch to another model or provider.",
+  },
+  {
+    kind: "authentication",
+    patterns: [
+      litellm("AuthenticationError"),
+      litellm("PermissionDeniedError"),
+      /Missing these environment variables/i,
+      /API provider is not able to authenticate you/i,
+      /invalid x-api-key/i,
+      /Incorrect API key provided/i,
+      /API key not valid/i,
+    ],
+    title: "The model provider rejected the credentials.",
+    action: "Set a valid API key for the provider, for example in the session's environment or with --api-key, and start a new session.",
+  },
+  {
+    kind: "model_not_found",
+    patterns: [
+      litellm("NotFoundError"),
+      /LLM Provider NOT provided/,
+      /"model_not_found"/,
+      /The model `[^`]+` does not exist/i,
+    ],
+    title: "The model provider does not know the requested model.",
+    action: "Check the model name and its provider prefix, or switch to another model.",
+  },
+  {
+    kind: "connection",
+    patterns: [
+      litellm("APIConnectionError"),
+      litellm("ServiceUnavailableError"),
+      litellm("Timeout"),
+      /problem connecting to the API provider/i,
+    ],
+    title: "Aider could not reach the model provider.",
+    action: "Check the network connection, proxy and API base URL, then retry the prompt.",
+  },
+];
+
+const RETRY_PATTERNS = [
+  /retry[- ]after["':\s]+(\d+(?:\.\d+)?)/i,
+  /try again in (\d+(?:\.\d+)?)\s*s/i,
+  /retryDelay["':\s]+"?(\d+(?:\.\d+)?)s/i,
+  /Retrying in (\d+(?:\.\d+)?) seconds/i,
+];
+
+const MISSING_KEY_PATTERN = /\b([A-Z][A-Z0-9_]*_(?:API_KEY|API_BASE|KEY|TOKEN))\b/g;
+
+function findClass(kind: ProviderErrorKind): ProviderErrorClass {
+  return PROVIDER_ERROR_CLASSES.find((entry) => entry.kind === kind) as ProviderErrorClass;
+}
+
+function readRetryAfter(text: string): number | undefined {
+  for (const pattern of RETRY_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) {
+      return Number(match[1]);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Recognises the provider failures LiteLLM raises through Aider, such as
+ * "litellm.RateLimitError: ..." or "Missing these environment variables:".
+ * Returns null for any other text.
+ */
+export function classifyProviderError(text: string): ProviderError | null {
+  const detail = text.trim();
+  const match = PROVIDER_ERROR_CLASSES.find((entry) =>
+    entry.patterns.some((pattern) => pattern.test(detail)),
+  );
+  if (!match) {
+    return null;
+  }
+
+  const error: ProviderError = { kind: match.kind, detail };
+  const retryAfterSeconds = readRetryAfter(detail);
+  if (retryAfterSeconds !== undefined) {
+    error.retryAfterSeconds = retryAfterSeconds;
+  }
+  if (match.kind === "authentication") {
+    const keys = [...new Set(Array.from(detail.matchAll(MISSING_KEY_PATTERN), (key) => key[1]))];
+    if (keys.length > 0) {
+      error.missingKeys = keys;
+    }
+  }
+  return error;
+}
+
+// Aider reports one failure over several lines; later lines fill in what earlier ones left out.
+export function mergeProviderErrors(first: ProviderError, next: ProviderError): ProviderError {
+  if (first.kind !== next.kind) {
+    return first;
+  }
+  const missingKeys = [...new Set([...(first.missingKeys ?? []), ...(next.missingKeys ?? [])])];
+  return {
+    ...first,
+    retryAfterSeconds: first.retryAfterSeconds ?? next.retryAfterSeconds,
+    ...(missingKeys.length > 0 ? { missingKeys } : {}),
+  };
+}
+
+export function providerErrorStopReason(error: ProviderError): protocol.StopReason {
+  return findClass(error.kind).stopReason ?? "end_turn";
+}
+
+export function formatProviderError(error: ProviderError): string {
+  const errorClass = findClass(error.kind);
+  const parts = [`❌ ${errorClass.title}`];
+  if (error.retryAfterSeconds !== undefined) {
+    parts.push(`The provider asked to retry after ${error.retryAfterSeconds} seconds.`);
+  }
+  if (error.missingKeys) {
+    parts.push(`Missing: ${error.missingKeys.join(", ")}.`);
+  }
+  parts.push(`💡 ${errorClass.action}`);
+  parts.push(`\`\`\`\n${error.detail}\n\`\`\``);
+  return parts.join("\n\n");
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import {
+  detectAiderQuestion,
+  parseAiderQuestion,
+  formatAiderQuestion,
+} from "./question-parser.js";
+
+describe("parseAiderQuestion", () => {
+  it("extracts every choice of the add-file question", () => {
+    const result = parseAiderQuestion(
+      "Add file to the chat? (Y)es/(N)o/(A)ll/(S)kip all/(D)on't ask again [Yes]: ",
+    );
+
+    expect(result?.question).toBe("Add file to the chat?");
+    expect(result?.options.map((option) => option.key)).toEqual(["y", "n", "a", "s", "d"]);
+    expect(result?.options.map((option) => option.label)).toEqual([
+      "Yes",
+      "No",
+      "All",
+      "Skip all",
+      "Don't ask again",
+    ]);
+    expect(result?.defaultOption?.key).toBe("y");
+  });
+
+  it("maps choices to ACP permission kinds", () => {
+    const result = parseAiderQuestion(
+      "Add file to the chat? (Y)es/(N)o/(A)ll/(S)kip all/(D)on't ask again [Yes]: ",
+    );
+
+    expect(result?.options.map((option) => option.kind)).toEqual([
+      "allow_once",
+      "reject_once",
+      "allow_always",
+      "reject_always",
+      "reject_always",
+    ]);
+  });
+
+  it("never treats an unknown choice as consent", () => {
+    const result = parseAiderQuestion("Continue anyway? (Y)es/(R)etry [Yes]: ");
+
+    expect(result?.options.map((option) => option.kind)).toEqual(["allow_once", "reject_once"]);
+  });
+
+  it("parses the .gitignore question", () => {
+    const result = parseAiderQuestion("Add .aider* to .gitignore (recommended)? (Y)es/(N)o [Yes]:");
+
+    expect(result?.question).toBe("Add .aider* to .gitignore (recommended)?");
+    expect(result?.options).toHaveLength(2);
+    expect(result?.subject).toBeUndefined();
+  });
+
+  it("recognises a default of No", () => {
+    const result = parseAiderQuestion("Run shell command? (Y)es/(N)o/(D)on't ask again [No]: ");
+    expect(result?.defaultOption?.key).toBe("n");
+  });
+
+  it("handles questions without a default", () => {
+    const result = parseAiderQuestion("Create new file? (Y)es/(N)o: ");
+    expect(result?.options).toHaveLength(2);
+    expect(result?.defaultOption).toBeUndefined();
+  });
+
+  it("returns null for regular output", () => {
+    expect(parseAiderQuestion("What does this function do?")).toBeNull();
+    expect(parseAiderQuestion("Note: see (A) and (B) for details:")).toBeNull();
+  });
+});
+
+describe("detectAiderQuestion", () => {
+  it("detects a question waiting at the end of the buffer", () => {
+    const buffer =
+      "Some answer text\n\nastro.config.mjs\nAdd file to the chat? (Y)es/(N)o/(A)ll/(S)kip all/(D)on't ask again [Yes]: ";
+    const result = detectAiderQuestion(buffer);
+
+    expect(result?.question).toBe("Add file to the chat?");
+    expect(result?.subject).toBe("astro.config.mjs");
+  });
+
+  it("ignores questions that were already answered", () => {
+    const buffer = "Create new file? (Y)es/(N)o [Yes]: y\nCreated file.\n";
+    expect(detectAiderQuestion(buffer)).toBeNull();
+  });
+
+  it("returns null for empty buffers", () => {
+    expect(detectAiderQuestion("")).toBeNull();
+    expect(detectAiderQuestion("\n\n")).toBeNull();
+  });
+
+  it("detects shell command questions with their command", () => {
+    const buffer = "npm test\nRun shell command? (Y)es/(N)o/(D)on't ask again [Yes]: ";
+    const result = detectAiderQuestion(buffer);
+
+    expect(result?.subject).toBe("npm test");
+    expect(formatAiderQuestion(result!)).toBe("Run shell command? npm test");
+  });
+
+  it("takes a whole block of shell commands as the subject", () => {
+    const buffer = [
+      "Tokens: 1.0k sent, 40 received.",
+      "",
+      "npm install   ",
+      "npm run build ",
+      "Run shell commands? (Y)es/(N)o/(D)on't ask again [Yes]: ",
+    ].join("\n");
+    const result = detectAiderQuestion(buffer);
+
+    expect(result?.subject).toBe("npm install\nnpm run build");
+    expect(formatAiderQuestion(result!)).toBe("Run shell commands? npm install; npm run build");
+  });
+});
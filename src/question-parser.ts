@@ -0,0 +1,158 @@
+import type { PermissionOptionKind } from "@agentclientprotocol/sdk";
+
+export interface AiderQuestionOption {
+  key: string;
+  label: string;
+  kind: PermissionOptionKind;
+}
+
+export interface AiderQuestion {
+  question: string;
+  subject?: string;
+  options: AiderQuestionOption[];
+  defaultOption?: AiderQuestionOption;
+  raw: string;
+}
+
+// Aider prints the question without a trailing newline and waits on stdin, e.g.
+// "Add file to the chat? (Y)es/(N)o/(A)ll/(S)kip all/(D)on't ask again [Yes]: "
+const questionPattern =
+  /^(?<question>.*?\?)\s*(?<choices>\([A-Za-z]\)[^[\]]*?)\s*(?:\[(?<default>[^\]]*)\])?:\s*$/;
+
+const choicePattern = /\(([A-Za-z])\)([^/]*)/g;
+
+// Questions where Aider prints the subject (file, URL, command) on the line before.
+const subjectQuestionPrefixes = [
+  "Add file to the chat?",
+  "Add URL to the chat?",
+  "Create new file?",
+  "Open URL for more info?",
+  "Run shell command?",
+  "Run shell commands?",
+  "Allow edits to file that has not been added to the chat?",
+];
+
+const optionKinds: Record<string, PermissionOptionKind> = {
+  y: "allow_once",
+  a: "allow_always",
+  n: "reject_once",
+  s: "reject_always",
+  d: "reject_always",
+};
+
+/**
+ * Detects an interactive Aider question at the end of the output buffer.
+ * Returns null when Aider is not currently blocked on a question.
+ */
+export function detectAiderQuestion(buffer: string): AiderQuestion | null {
+  const lines = buffer.replace(/\r/g, "").split("\n");
+  while (lines.length > 0 && lines[lines.length - 1].trim().length === 0) {
+    lines.pop();
+  }
+  if (lines.length === 0) {
+    return null;
+  }
+
+  const lastLine = lines[lines.length - 1];
+  if (!/:\s*$/.test(buffer)) {
+    return null;
+  }
+
+  return parseAiderQuestion(lastLine, lines.slice(0, -1));
+}
+
+/**
+ * Parses a single Aider question line. Preceding lines are used to recover
+ * the subject of questions such as "Add file to the chat?".
+ */
+export function parseAiderQuestion(
+  line: string,
+  precedingLines: string[] = [],
+): AiderQuestion | null {
+  const raw = line.trim();
+  const match = raw.match(questionPattern);
+  if (!match?.groups) {
+    return null;
+  }
+
+  const options = parseChoices(match.groups.choices);
+  if (options.length === 0) {
+    return null;
+  }
+
+  const question = match.groups.question.trim();
+  const defaultLabel = match.groups.default?.trim().toLowerCase();
+  const defaultOption = defaultLabel
+    ? options.find(
+        (option) =>
+          option.label.toLowerCase() === defaultLabel ||
+          option.key === defaultLabel.charAt(0),
+      )
+    : undefined;
+
+  return {
+    question,
+    subject: findSubject(question, precedingLines),
+    options,
+    defaultOption,
+    raw,
+  };
+}
+
+function parseChoices(choices: string): AiderQuestionOption[] {
+  const options: AiderQuestionOption[] = [];
+
+  for (const match of choices.matchAll(choicePattern)) {
+    const key = match[1].toLowerCase();
+    const label = `${match[1].toUpperCase()}${match[2]}`.trim();
+    if (options.some((option) => option.key === key)) {
+      continue;
+    }
+    options.push({
+      key,
+      label,
+      // An answer we do not know is never taken as consent.
+      kind: optionKinds[key] ?? "reject_once",
+    });
+  }
+
+  return options;
+}
+
+export function isSubjectQuestion(question: string): boolean {
+  return subjectQuestionPrefixes.some((prefix) => question.startsWith(prefix));
+}
+
+function findSubject(question: string, precedingLines: string[]): string | undefined {
+  if (!isSubjectQuestion(question)) {
+    return undefined;
+  }
+
+  let end = precedingLines.length;
+  while (end > 0 && precedingLines[end - 1].trim().length === 0) {
+    end -= 1;
+  }
+  if (end === 0) {
+    return undefined;
+  }
+
+  // A block of shell commands is shown whole, after a blank line.
+  let start = end - 1;
+  if (/^Run shell commands?\?/.test(question)) {
+    while (start > 0 && precedingLines[start - 1].trim().length > 0) {
+      start -= 1;
+    }
+  }
+
+  return precedingLines
+    .slice(start, end)
+    .map((line) => line.trim())
+    .join("\n");
+}
+
+export function formatAiderQuestion(question: AiderQuestion): string {
+  // Titles are one line; a block of commands runs one after another anyway.
+  return question.subject
+    ? `${question.question} ${question.subject.replace(/\n/g, "; ")}`
+    : question.question;
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { ReasoningFilter, type OutputPart } from "./reasoning.js";
+
+function run(chunks: string[]): OutputPart[] {
+  const filter = new ReasoningFilter();
+  const parts = [...chunks.flatMap((chunk) => filter.push(chunk)), ...filter.flush()];
+  // Merge neighbours so the result does not depend on chunk boundaries.
+  return parts.reduce<OutputPart[]>((merged, part) => {
+    const last = merged[merged.length - 1];
+    if (last && last.reasoning === part.reasoning) {
+      last.text += part.text;
+    } else {
+      merged.push({ ...part });
+    }
+    return merged;
+  }, []);
+}
+
+const bannerOutput = [
+  "",
+  "--------------",
+  "► **THINKING**",
+  "",
+  "The user wants a greeting.",
+  "",
+  "------------",
+  "► **ANSWER**",
+  "",
+  "Here is the greeting.",
+  "",
+].join("\n");
+
+describe("ReasoningFilter", () => {
+  it("routes Aider's THINKING section to reasoning and keeps the ANSWER", () => {
+    expect(run([bannerOutput])).toEqual([
+      { reasoning: false, text: "\n" },
+      { reasoning: true, text: "The user wants a greeting.\n\n" },
+      { reasoning: false, text: "Here is the greeting.\n" },
+    ]);
+  });
+
+  it("gives the same result however the output is chunked", () => {
+    const expected = run([bannerOutput]);
+    const byCharacter = run(bannerOutput.split(""));
+    const byThree = run(bannerOutput.match(/[\s\S]{1,3}/g) ?? []);
+    expect(byCharacter).toEqual(expected);
+    expect(byThree).toEqual(expected);
+  });
+
+  it("handles <think> tags, including text on the same line", () => {
+    expect(run(["<think>Check the loop.\nIt is off by one.</think> Fixed the loop.\n"])).toEqual([
+      { reasoning: true, text: "Check the loop.\nIt is off by one." },
+      { reasoning: false, text: "Fixed the loop.\n" },
+    ]);
+  });
+
+  it("passes Markdown rules and ordinary lines through", () => {
+    expect(run(["Intro\n---\nMore\n- item\n<div>\n"])).toEqual([
+      { reasoning: false, text: "Intro\n---\nMore\n- item\n<div>\n" },
+    ]);
+  });
+
+  it("releases unfinished lines unless they may become a marker", () => {
+    const filter = new ReasoningFilter();
+    expect(filter.push("> ")).toEqual([{ reasoning: false, text: "> " }]);
+    expect(filter.push("----")).toEqual([]);
+    expect(filter.flush()).toEqual([{ reasoning: false, text: "----" }]);
+  });
+
+  it("leaves reasoning at the end of a turn", () => {
+    const filter = new ReasoningFilter();
+    expect(filter.push("► **THINKING**\nhalf a thought\n---")).toEqual([
+      { reasoning: true, text: "half a thought\n" },
+    ]);
+    expect(filter.flush()).toEqual([{ reasoning: true, text: "---" }]);
+    expect(filter.push("Next turn\n")).toEqual([{ reasoning: false, text: "Next turn\n" }]);
+  });
+});
@@ -0,0 +1,144 @@
+export interface OutputPart {
+  // True for the model's reasoning, false for the answer and anything else Aider prints.
+  reasoning: boolean;
+  text: string;
+}
+
+// Aider frames reasoning as "► **THINKING**" ... "► **ANSWER**", each banner after a dash rule.
+const THINKING_BANNER = /^\s*►\s*\*\*THINKING\*\*\s*$/;
+const ANSWER_BANNER = /^\s*►\s*\*\*ANSWER\*\*\s*$/;
+const RULE = /^\s*-{3,}\s*$/;
+// Models whose reasoning Aider passes through untouched wrap it in tags instead.
+const OPEN_TAG = /^\s*<(think|thinking|reasoning)>/i;
+const CLOSE_TAG = /<\/(think|thinking|reasoning)>/i;
+// An unterminated line that could still turn into a banner, rule or tag.
+const POSSIBLE_MARKER = /^\s*(?:►.*|<[a-z]*>?|-+\s*)$/i;
+
+/**
+ * Separates reasoning from the rest of Aider's output as it streams in. Lines
+ * are classified once complete; an unfinished line is passed on at once
+ * unless it could still become a banner, rule or tag.
+ */
+export class ReasoningFilter {
+  private pending = "";
+  private inReasoning = false;
+  // A dash rule held back until the next line shows whether it frames a banner.
+  private rule: string | null = null;
+  // Blank lines right after a banner or tag are dropped.
+  private sectionStart = false;
+
+  public push(chunk: string): OutputPart[] {
+    this.pending += chunk;
+    const parts: OutputPart[] = [];
+
+    let newline = this.pending.indexOf("\n");
+    while (newline !== -1) {
+      const line = this.pending.slice(0, newline + 1);
+      this.pending = this.pending.slice(newline + 1);
+      this.handleLine(line, parts);
+      newline = this.pending.indexOf("\n");
+    }
+
+    if (this.pending.length > 0 && this.rule === null && !POSSIBLE_MARKER.test(this.pending)) {
+      this.emit(parts, this.pending, this.inReasoning);
+      this.pending = "";
+    }
+    return parts;
+  }
+
+  // Releases everything held back and starts the next turn outside reasoning.
+  public flush(): OutputPart[] {
+    const parts: OutputPart[] = [];
+    if (this.rule !== null) {
+      this.emit(parts, this.rule, this.inReasoning);
+    }
+    if (this.pending.length > 0) {
+      this.emit(parts, this.pending, this.inReasoning);
+    }
+    this.pending = "";
+    this.rule = null;
+    this.inReasoning = false;
+    this.sectionStart = false;
+    return parts;
+  }
+
+  private handleLine(line: string, parts: OutputPart[]): void {
+    const content = line.replace(/\r?\n$/, "");
+
+    if (this.rule !== null) {
+      const rule = this.rule;
+      this.rule = null;
+      if (this.switchesSection(content)) {
+        return;
+      }
+      this.emit(parts, rule, this.inReasoning);
+    }
+
+    if (RULE.test(content)) {
+      this.rule = line;
+      return;
+    }
+    if (this.switchesSection(content)) {
+      return;
+    }
+
+    if (!this.inReasoning) {
+      const open = content.match(OPEN_TAG);
+      if (open) {
+        this.startSection(true);
+        const rest = line.slice(line.indexOf(open[0]) + open[0].length);
+        if (rest.trim().length > 0) {
+          this.handleLine(rest, parts);
+        }
+        return;
+      }
+    } else {
+      const close = line.match(CLOSE_TAG);
+      if (close && close.index !== undefined) {
+        this.emit(parts, line.slice(0, close.index), true);
+        this.startSection(false);
+        const rest = line.slice(close.index + close[0].length);
+        if (rest.trim().length > 0) {
+          this.emit(parts, rest.replace(/^[ \t]+/, ""), false);
+        }
+        return;
+      }
+    }
+
+    this.emit(parts, line, this.inReasoning);
+  }
+
+  private switchesSection(content: string): boolean {
+    if (!this.inReasoning && THINKING_BANNER.test(content)) {
+      this.startSection(true);
+      return true;
+    }
+    if (this.inReasoning && ANSWER_BANNER.test(content)) {
+      this.startSection(false);
+      return true;
+    }
+    return false;
+  }
+
+  private startSection(reasoning: boolean): void {
+    this.inReasoning = reasoning;
+    this.sectionStart = true;
+  }
+
+  private emit(parts: OutputPart[], text: string, reasoning: boolean): void {
+    if (this.sectionStart && text.trim().length === 0) {
+      return;
+    }
+    this.sectionStart = false;
+    if (text.length === 0) {
+      return;
+    }
+
+    const last = parts[parts.length - 1];
+    if (last && last.reasoning === reasoning) {
+      last.text += text;
+    } else {
+      parts.push({ reasoning, text });
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { formatReplay, loadReplayFixture, replayTranscript } from "./replay.js";
+
+const SAMPLES_DIR = path.resolve(__dirname, "../example_text/test_samples");
+const fixtures = fs
+  .readdirSync(SAMPLES_DIR)
+  .filter((name) => name.endsWith(".json"))
+  .sort();
+
+// Golden files record the ACP updates each fixture produces. After an intended
+// change in output, regenerate them with `pnpm test -u` and review the diff.
+describe("golden transcripts", () => {
+  it("has fixtures to replay", () => {
+    expect(fixtures.length).toBeGreaterThan(0);
+  });
+
+  it.each(fixtures)("%s", async (name) => {
+    const fixture = await loadReplayFixture(path.join(SAMPLES_DIR, name));
+    const output = formatReplay(await replayTranscript(fixture));
+    await expect(output).toMatchFileSnapshot(
+      path.join(SAMPLES_DIR, name.replace(/\.json$/, ".golden.jsonl")),
+    );
+  });
+});
+
+describe("replayTranscript", () => {
+  it("numbers session and tool call ids and answers questions from the fixture", async () => {
+    const entries = await replayTranscript({
+      prompts: ["create it"],
+      answers: ["n"],
+      events: [
+        { type: "stdout", data: "> " },
+        { type: "input" },
+        { type: "stdout", data: "notes.md\nCreate new file? (Y)es/(N)o [Yes]: " },
+        { type: "input" },
+        { type: "stdout", data: "Skipping edits to notes.md\n> " },
+        { type: "input" },
+      ],
+    });
+
+    expect(entries).toContainEqual({
+      type: "permission_request",
+      title: expect.stringContaining("Create new file?"),
+      options: ["y", "n"],
+    });
+    expect(entries[entries.length - 1]).toEqual({
+      type: "prompt_response",
+      response: { stopReason: "end_turn" },
+    });
+    expect(JSON.stringify(entries)).not.toMatch(/sess_\d+|confirm_\d+/);
+  });
+
+  it("ignores the agent's environment", async () => {
+    const fixture = await loadReplayFixture(path.join(SAMPLES_DIR, "plain-reply.json"));
+    const expected = formatReplay(await replayTranscript(fixture));
+
+    vi.stubEnv("AIDER_EXTRA_ARGS", '["--verbose"]');
+    vi.stubEnv("AIDER_MODELS", '[{"modelId":"gpt-4o","name":"GPT-4o"}]');
+    vi.stubEnv("AIDER_DEFAULT_MODEL", "gpt-4o");
+    vi.stubEnv("AIDER_SESSION_IDLE_TIMEOUT", "0.001");
+    try {
+      expect(formatReplay(await replayTranscript(fixture))).toBe(expected);
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+
+  it("rejects files that are not fixtures", async () => {
+    const file = path.join(SAMPLES_DIR, "../aider_conversation_log_2025-10-20.md");
+    await expect(loadReplayFixture(file)).rejects.toThrow();
+  });
+});
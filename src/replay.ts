@@ -0,0 +1,138 @@
+import type * as protocol from "@agentclientprotocol/sdk";
+import { promises as fs } from "node:fs";
+import { AiderAcpAgent, type AiderAcpAgentOptions } from "./acp-agent.js";
+import { ScriptedAiderBackend, type AiderTranscript } from "./scripted-backend.js";
+import { DEFAULT_TURN_TIMEOUTS } from "./turn-watchdog.js";
+
+/**
+ * A recorded Aider session plus what the client did during it. Every stdout
+ * and stderr event is one chunk as Aider wrote it, so chunk boundaries are
+ * replayed exactly.
+ */
+export interface ReplayFixture extends AiderTranscript {
+  // Prompt texts sent one after another, each once the previous turn ended.
+  prompts: string[];
+  // Option ids picked for Aider's questions in order; afterwards the first option is picked.
+  answers?: string[];
+  // Working directory of the session; defaults to /workspace so output does not depend on the machine.
+  cwd?: string;
+  // What the approved shell commands printed and exited with, in order; later ones print nothing and exit 0.
+  commands?: Array<{ output: string; exitCode: number }>;
+}
+
+// One line of a replay: what the agent sent to the client, in order.
+export type ReplayEntry =
+  | { type: "session_update"; update: unknown; _meta?: unknown }
+  | { type: "permission_request"; title: string; options: string[]; content?: unknown }
+  | { type: "prompt_response"; response: protocol.PromptResponse };
+
+const DEFAULT_REPLAY_CWD = "/workspace";
+
+// Nothing is read from the environment or the working directory, so a replay
+// prints the same updates on every machine.
+const REPLAY_AGENT_OPTIONS: AiderAcpAgentOptions = {
+  env: {},
+  launchProfile: {},
+  projectConfig: false,
+  models: [{ modelId: "gemini/gemini-2.5-flash", name: "Gemini 2.5 Flash" }],
+  defaultModelId: "gemini/gemini-2.5-flash",
+  turnTimeouts: DEFAULT_TURN_TIMEOUTS,
+  processPool: { size: 0, maxProcesses: 0 },
+  sessionLimits: { maxSessions: 0, idleMs: 0 },
+};
+
+export async function loadReplayFixture(filePath: string): Promise<ReplayFixture> {
+  const fixture = JSON.parse(await fs.readFile(filePath, "utf8")) as Partial<ReplayFixture>;
+  if (!Array.isArray(fixture.events) || !Array.isArray(fixture.prompts)) {
+    throw new Error(`${filePath} is not a replay fixture: it needs "events" and "prompts" arrays`);
+  }
+  return fixture as ReplayFixture;
+}
+
+/**
+ * Feeds a fixture through AiderAcpAgent with a scripted backend and returns
+ * everything the agent sent to the client.
+ */
+export async function replayTranscript(fixture: ReplayFixture): Promise<ReplayEntry[]> {
+  const entries: ReplayEntry[] = [];
+  const answers = fixture.answers?.slice() ?? [];
+  const commands = fixture.commands?.slice() ?? [];
+
+  const client = {
+    sessionUpdate(notification: protocol.SessionNotification): void {
+      // Copied on arrival, as a real connection would serialize it; the agent keeps mutating its plans.
+      const { update, _meta } = JSON.parse(JSON.stringify(notification)) as protocol.SessionNotification & {
+        _meta?: unknown;
+      };
+      entries.push(
+        _meta === undefined ? { type: "session_update", update } : { type: "session_update", update, _meta },
+      );
+    },
+    async requestPermission(
+      request: protocol.RequestPermissionRequest,
+    ): Promise<protocol.RequestPermissionResponse> {
+      const { title, content } = request.toolCall;
+      entries.push({
+        type: "permission_request",
+        title: title ?? "",
+        options: request.options.map((option) => option.optionId),
+        ...(content ? { content } : {}),
+      });
+      const optionId = answers.shift() ?? request.options[0]?.optionId;
+      return { outcome: { outcome: "selected", optionId } } as protocol.RequestPermissionResponse;
+    },
+  } as unknown as protocol.AgentSideConnection;
+
+  const agent = new AiderAcpAgent(client, {
+    ...REPLAY_AGENT_OPTIONS,
+    backendFactory: () => new ScriptedAiderBackend(fixture, { timeScale: 0 }),
+    // Recorded results stand in for running commands on this machine.
+    shellRunner: async (_command, { onOutput }) => {
+      const result = commands.shift() ?? { output: "", exitCode: 0 };
+      if (result.output.length > 0) {
+        onOutput(result.output);
+      }
+      return result.exitCode;
+    },
+  });
+
+  try {
+    await agent.initialize({ protocolVersion: 1 } as protocol.InitializeRequest);
+    const { sessionId } = await agent.newSession({
+      cwd: fixture.cwd ?? DEFAULT_REPLAY_CWD,
+      mcpServers: [],
+    });
+    for (const text of fixture.prompts) {
+      const response = await agent.prompt({ sessionId, prompt: [{ type: "text", text }] });
+      entries.push({ type: "prompt_response", response });
+    }
+  } finally {
+    await agent.shutdown();
+  }
+
+  return normalizeReplay(entries);
+}
+
+// Session and tool call ids embed timestamps; number them in order of appearance instead.
+function normalizeReplay(entries: ReplayEntry[]): ReplayEntry[] {
+  const ids = new Map<string, string>();
+  const counts = { sessionId: 0, toolCallId: 0 };
+  const rename = (key: string, value: unknown): unknown => {
+    if ((key === "sessionId" || key === "toolCallId") && typeof value === "string") {
+      let id = ids.get(value);
+      if (!id) {
+        counts[key] += 1;
+        id = `${key === "sessionId" ? "session" : "tool"}_${counts[key]}`;
+        ids.set(value, id);
+      }
+      return id;
+    }
+    return value;
+  };
+  return JSON.parse(JSON.stringify(entries, rename)) as ReplayEntry[];
+}
+
+// One JSON object per line, as the --replay mode prints it.
+export function formatReplay(entries: ReplayEntry[]): string {
+  return entries.map((entry) => JSON.stringify(entry)).join("\n") + "\n";
+}
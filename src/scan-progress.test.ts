@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { ProgressFilter, containsProgressBar, parseProgressLine } from "./scan-progress.js";
+
+describe("parseProgressLine", () => {
+  it("reads the percentage and file counts of a tqdm frame", () => {
+    expect(parseProgressLine("Scanning repo:  45%|████▌     | 450/1000 [00:02<00:03, 180.00it/s]")).toEqual({
+      label: "Scanning repo",
+      percent: 45,
+      done: 450,
+      total: 1000,
+      finished: false,
+    });
+    expect(parseProgressLine("Updating repo map: 100%|██████████| 12/12 [00:00<00:00]")?.finished).toBe(true);
+  });
+
+  it("ignores other output", () => {
+    expect(parseProgressLine("Scanning repo: please wait")).toBeNull();
+    expect(parseProgressLine("Download: 50%|█████     | 5/10")).toBeNull();
+  });
+});
+
+describe("ProgressFilter", () => {
+  it("takes carriage-return frames out of the output and keeps the rest", () => {
+    const filter = new ProgressFilter();
+
+    const first = filter.push("Initial repo scan can be slow.\n\rScanning repo:   0%|          | 0/3 [00:00<?, ?it/s]");
+    expect(first.text).toBe("Initial repo scan can be slow.\n");
+    expect(first.progress.map((frame) => frame.done)).toEqual([0]);
+
+    const second = filter.push("\rScanning repo:  67%|██████▋   | 2/3 [00:01<00:00]\rScanning repo: 100%|██████████| 3/3 [00:01<00:00]\n> ");
+    expect(second.progress.map((frame) => frame.percent)).toEqual([67, 100]);
+    expect(second.text).toBe("> ");
+  });
+
+  it("holds a frame split across chunks", () => {
+    const filter = new ProgressFilter();
+
+    expect(filter.push("\rScanning repo:  5")).toEqual({ progress: [], text: "" });
+    expect(filter.push("0%|█████     | 5/10 [00:01<00:01]").progress[0]).toMatchObject({ percent: 50, done: 5 });
+    expect(filter.flush()).toBe("");
+  });
+});
+
+describe("containsProgressBar", () => {
+  it("recognises stderr chunks that only draw progress", () => {
+    expect(containsProgressBar("\rScanning repo:  10%|█         | 1/10 [00:00<00:09]")).toBe(true);
+    expect(containsProgressBar("Traceback (most recent call last):")).toBe(false);
+  });
+});
@@ -0,0 +1,84 @@
+export interface ScanProgress {
+  label: string;
+  percent: number;
+  done: number;
+  total: number;
+  finished: boolean;
+}
+
+// Progress bars Aider draws with tqdm while it indexes the repository.
+const PROGRESS_LABEL = /^\s*(Scanning repo|Updating repo map)\b/;
+const PROGRESS_BAR = /^\s*([^:\r\n]+):\s*(\d{1,3})%\|[^|]*\|\s*(\d+)\/(\d+)/;
+
+// True when a stderr chunk carries progress frames rather than an error.
+export function containsProgressBar(text: string): boolean {
+  return text.split(/\r\n|\r|\n/).some((segment) => parseProgressLine(segment) !== null);
+}
+
+/**
+ * Parses one tqdm frame such as
+ * "Scanning repo:  45%|████▌     | 450/1000 [00:02<00:03, 180.00it/s]".
+ */
+export function parseProgressLine(segment: string): ScanProgress | null {
+  if (!PROGRESS_LABEL.test(segment)) {
+    return null;
+  }
+  const match = segment.match(PROGRESS_BAR);
+  if (!match) {
+    return null;
+  }
+
+  const done = Number(match[3]);
+  const total = Number(match[4]);
+  return {
+    label: match[1].trim(),
+    percent: Math.min(100, Number(match[2])),
+    done,
+    total,
+    finished: total > 0 && done >= total,
+  };
+}
+
+/**
+ * Takes progress bars out of Aider's output. tqdm redraws a bar by writing
+ * "\r" and the new frame, so frames are split on carriage returns as well as
+ * newlines; everything that is not a frame is passed through unchanged. A
+ * trailing piece that starts like a bar is held until the next chunk.
+ */
+export class ProgressFilter {
+  private pending = "";
+
+  public push(chunk: string): { progress: ScanProgress[]; text: string } {
+    const input = this.pending + chunk;
+    this.pending = "";
+    const progress: ScanProgress[] = [];
+    let text = "";
+
+    const segments = input.match(/[^\r\n]*(?:\r\n|\r|\n|$)/g) ?? [];
+    for (const segment of segments) {
+      // A bare carriage return only moves the cursor back for the next frame.
+      if (segment.length === 0 || segment === "\r") continue;
+
+      const frame = parseProgressLine(segment);
+      if (frame) {
+        progress.push(frame);
+        continue;
+      }
+
+      // Only the last segment can be unterminated.
+      if (!/[\r\n]$/.test(segment) && PROGRESS_LABEL.test(segment)) {
+        this.pending = segment;
+        continue;
+      }
+      text += segment;
+    }
+
+    return { progress, text };
+  }
+
+  public flush(): string {
+    const text = this.pending;
+    this.pending = "";
+    return text;
+  }
+}
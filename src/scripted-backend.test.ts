@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import { AiderState } from "./aider-backend.js";
+import { ScriptedAiderBackend, type AiderTranscript } from "./scripted-backend.js";
+
+const transcript: AiderTranscript = {
+  events: [
+    { type: "stdout", data: "Aider v0.86.1\nMain model: gpt-4o\n", delayMs: 5 },
+    { type: "stdout", data: "> " },
+    { type: "input", data: "hello" },
+    { type: "stdout", data: "> hello\n\nHi there! How can I help?\n\n", delayMs: 5 },
+    { type: "stdout", data: "> " },
+    { type: "input" },
+    { type: "stdout", data: "notes.md\nCreate new file? (Y)es/(N)o [Yes]: " },
+    { type: "input", data: "y" },
+    { type: "stdout", data: "Created notes.md\n> " },
+  ],
+};
+
+function nextEvent(backend: ScriptedAiderBackend, event: string): Promise<unknown[]> {
+  return new Promise((resolve) => backend.once(event, (...args: unknown[]) => resolve(args)));
+}
+
+describe("ScriptedAiderBackend", () => {
+  it("replays start-up output until Aider waits for input", async () => {
+    const backend = new ScriptedAiderBackend(transcript, { timeScale: 0 });
+    const ready = nextEvent(backend, "ready");
+    backend.start();
+    await ready;
+
+    expect(backend.getState()).toBe(AiderState.READY);
+    expect(backend.remainingEvents()).toBe(7);
+  });
+
+  it("plays a turn once a command is written and filters the echo", async () => {
+    const backend = new ScriptedAiderBackend(transcript, { timeScale: 0 });
+    const ready = nextEvent(backend, "ready");
+    backend.start();
+    await ready;
+
+    const completed = nextEvent(backend, "turn_completed");
+    backend.sendCommand("hello");
+    const [turnOutput] = (await completed) as [string];
+
+    expect(turnOutput).toContain("Hi there!");
+    expect(turnOutput).not.toContain("> hello");
+    expect(backend.inputs).toEqual(["hello"]);
+  });
+
+  it("raises questions and resumes after the answer", async () => {
+    const backend = new ScriptedAiderBackend(transcript, { timeScale: 0 });
+    const ready = nextEvent(backend, "ready");
+    backend.start();
+    await ready;
+    backend.sendCommand("hello");
+    await nextEvent(backend, "turn_completed");
+
+    const question = nextEvent(backend, "confirmation_required");
+    backend.sendCommand("/add notes.md");
+    await question;
+    expect(backend.pendingQuestion?.subject).toBe("notes.md");
+
+    const completed = nextEvent(backend, "turn_completed");
+    backend.answerConfirmation("y");
+    await completed;
+    expect(backend.remainingEvents()).toBe(0);
+  });
+
+  it("re-splits output into smaller chunks", async () => {
+    const backend = new ScriptedAiderBackend(transcript, { timeScale: 0, maxChunkSize: 4 });
+    const chunks: string[] = [];
+    backend.on("data", (chunk: string) => chunks.push(chunk));
+    const ready = nextEvent(backend, "ready");
+    backend.start();
+    await ready;
+
+    expect(chunks.every((chunk) => chunk.length <= 4)).toBe(true);
+    expect(chunks.join("")).toBe("Aider v0.86.1\nMain model: gpt-4o\n> ");
+  });
+
+  it("simulates an interrupt by skipping to the next prompt", async () => {
+    const backend = new ScriptedAiderBackend(
+      {
+        events: [
+          { type: "stdout", data: "> " },
+          { type: "input" },
+          { type: "stdout", data: "thinking...", delayMs: 1_000 },
+          { type: "stdout", data: "never shown\n> " },
+          { type: "input" },
+        ],
+      },
+      { timeScale: 1 },
+    );
+    const ready = nextEvent(backend, "ready");
+    backend.start();
+    await ready;
+
+    backend.sendCommand("slow request");
+    const completed = nextEvent(backend, "turn_completed");
+    backend.interrupt();
+    const [turnOutput] = (await completed) as [string];
+
+    expect(turnOutput).not.toContain("never shown");
+    expect(backend.remainingEvents()).toBe(1);
+  });
+
+  it("reports a scripted exit as unexpected and stop() as expected", async () => {
+    const crashing = new ScriptedAiderBackend({ events: [{ type: "exit", code: 1 }] }, { timeScale: 0 });
+    const crashed = nextEvent(crashing, "exit");
+    crashing.start();
+    expect((await crashed)[1]).toMatchObject({ code: 1, expected: false });
+
+    const stopped = new ScriptedAiderBackend(transcript, { timeScale: 0 });
+    stopped.start();
+    const exit = nextEvent(stopped, "exit");
+    stopped.stop();
+    expect((await exit)[1]).toMatchObject({ expected: true });
+  });
+});
@@ -0,0 +1,180 @@
+import { AiderStreamBackend, InterruptPolicy } from "./aider-backend.js";
+import { TurnFramingOptions } from "./turn-framing.js";
+
+// One entry of a recorded Aider session. `input` marks the point where Aider
+// blocked on stdin; playback pauses there until the agent writes something.
+export type TranscriptEvent =
+  | { type: "stdout"; data: string; delayMs?: number }
+  | { type: "stderr"; data: string; delayMs?: number }
+  | { type: "input"; data?: string }
+  | { type: "exit"; code: number | null; delayMs?: number };
+
+export interface AiderTranscript {
+  description?: string;
+  events: TranscriptEvent[];
+}
+
+export interface ScriptedBackendOptions {
+  // Multiplies every recorded delay; 0 replays as fast as possible.
+  timeScale?: number;
+  // Re-splits stdout/stderr data into chunks of at most this many characters.
+  maxChunkSize?: number;
+  turnFraming?: Partial<TurnFramingOptions>;
+  interruptPolicy?: Partial<InterruptPolicy>;
+  // Signals to swallow, once per entry, to simulate an Aider that hangs on Ctrl-C.
+  ignoredSignals?: NodeJS.Signals[];
+}
+
+/**
+ * Replays a recorded Aider transcript through the same output handling as the
+ * real subprocess backend, so agent behaviour can be tested without an LLM.
+ */
+export class ScriptedAiderBackend extends AiderStreamBackend {
+  private readonly events: TranscriptEvent[];
+  private readonly timeScale: number;
+  private cursor = 0;
+  private running = false;
+  private timer: NodeJS.Timeout | null = null;
+  // Lines written before playback reached the matching `input` event.
+  private bufferedInputs = 0;
+  private readonly ignoredSignals: NodeJS.Signals[];
+  public readonly inputs: string[] = [];
+  public readonly signals: NodeJS.Signals[] = [];
+
+  constructor(transcript: AiderTranscript, options: ScriptedBackendOptions = {}) {
+    super(options.turnFraming, options.interruptPolicy);
+    this.events = splitTranscriptEvents(transcript.events, options.maxChunkSize ?? 0);
+    this.timeScale = options.timeScale ?? 1;
+    this.ignoredSignals = options.ignoredSignals?.slice() ?? [];
+  }
+
+  public start(): void {
+    if (this.running || this.cursor > 0) return;
+    this.running = true;
+    this.playNext();
+  }
+
+  // Remaining events, useful to assert that a transcript was fully consumed.
+  public remainingEvents(): number {
+    return this.events.length - this.cursor;
+  }
+
+  protected isRunning(): boolean {
+    return this.running;
+  }
+
+  protected writeInput(text: string): void {
+    this.inputs.push(text.replace(/\n$/, ""));
+    this.bufferedInputs += 1;
+    if (!this.timer) {
+      this.playNext();
+    }
+  }
+
+  // Ctrl-C drops the rest of the current turn and shows the prompt; any other
+  // signal ends playback.
+  protected sendSignal(signal: NodeJS.Signals): void {
+    if (!this.running) return;
+    this.signals.push(signal);
+
+    const ignored = this.ignoredSignals.indexOf(signal);
+    if (ignored !== -1) {
+      this.ignoredSignals.splice(ignored, 1);
+      return;
+    }
+
+    this.clearTimer();
+    if (signal === "SIGINT") {
+      while (this.cursor < this.events.length && this.events[this.cursor].type !== "input") {
+        this.cursor += 1;
+      }
+      this.bufferedInputs = 0;
+      this.handleOutput("\n^C\n> ");
+      return;
+    }
+
+    this.running = false;
+    this.handleClose(null, signal);
+  }
+
+  public stop(): void {
+    if (!this.running) return;
+    this.stopRequested = true;
+    this.running = false;
+    this.clearTimer();
+    this.handleClose(null, "SIGTERM");
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private playNext(): void {
+    const event = this.events[this.cursor];
+    if (!this.running || !event) {
+      return;
+    }
+
+    if (event.type === "input") {
+      if (this.bufferedInputs === 0) return;
+      this.bufferedInputs -= 1;
+      this.cursor += 1;
+      this.playNext();
+      return;
+    }
+
+    const delayMs = Math.max(0, (event.delayMs ?? 0) * this.timeScale);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      if (!this.running) return;
+      this.cursor += 1;
+      this.emitEvent(event);
+      // A listener that answered synchronously has already scheduled the next event.
+      if (!this.timer) {
+        this.playNext();
+      }
+    }, delayMs);
+  }
+
+  private emitEvent(event: TranscriptEvent): void {
+    switch (event.type) {
+      case "stdout":
+        this.handleOutput(event.data);
+        return;
+      case "stderr":
+        this.handleError(event.data);
+        return;
+      case "exit":
+        this.running = false;
+        this.handleClose(event.code, null);
+        return;
+      case "input":
+        return;
+    }
+  }
+}
+
+function splitTranscriptEvents(events: TranscriptEvent[], maxChunkSize: number): TranscriptEvent[] {
+  if (maxChunkSize <= 0) {
+    return events.slice();
+  }
+
+  return events.flatMap((event) => {
+    if ((event.type !== "stdout" && event.type !== "stderr") || event.data.length <= maxChunkSize) {
+      return [event];
+    }
+
+    const chunks: TranscriptEvent[] = [];
+    for (let offset = 0; offset < event.data.length; offset += maxChunkSize) {
+      chunks.push({
+        type: event.type,
+        data: event.data.slice(offset, offset + maxChunkSize),
+        delayMs: offset === 0 ? event.delayMs : 0,
+      });
+    }
+    return chunks;
+  });
+}
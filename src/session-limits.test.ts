@@ -0,0 +1,23 @@
+import { describe, it, expect, vi } from "vitest";
+import { DEFAULT_SESSION_LIMITS, loadSessionLimits } from "./session-limits.js";
+
+describe("loadSessionLimits", () => {
+  it("uses the defaults when nothing is configured", () => {
+    expect(loadSessionLimits({})).toEqual(DEFAULT_SESSION_LIMITS);
+  });
+
+  it("reads the session cap and the idle timeout in seconds", () => {
+    expect(
+      loadSessionLimits({ AIDER_MAX_SESSIONS: "4", AIDER_SESSION_IDLE_TIMEOUT: "90" }),
+    ).toEqual({ maxSessions: 4, idleMs: 90_000 });
+  });
+
+  it("ignores invalid values", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(
+      loadSessionLimits({ AIDER_MAX_SESSIONS: "-2", AIDER_SESSION_IDLE_TIMEOUT: "soon" }),
+    ).toEqual(DEFAULT_SESSION_LIMITS);
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,39 @@
+export interface SessionLimits {
+  // Sessions with a running Aider process; the least recently used idle one is
+  // suspended to make room. 0 means no limit.
+  maxSessions: number;
+  // A session's Aider process is stopped after this long without a prompt and
+  // restarted on the next one. 0 keeps it running. Off by default because the
+  // restarted process does not remember the conversation.
+  idleMs: number;
+}
+
+export const DEFAULT_SESSION_LIMITS: SessionLimits = {
+  maxSessions: 0,
+  idleMs: 0,
+};
+
+function readNonNegative(value: string | undefined, variable: string): number | undefined {
+  if (value === undefined || value.trim().length === 0) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0) {
+    console.warn(`Ignoring invalid ${variable} value "${value}".`);
+    return undefined;
+  }
+  return number;
+}
+
+/**
+ * Reads AIDER_MAX_SESSIONS and AIDER_SESSION_IDLE_TIMEOUT (seconds).
+ */
+export function loadSessionLimits(env: NodeJS.ProcessEnv = process.env): SessionLimits {
+  const maxSessions = readNonNegative(env.AIDER_MAX_SESSIONS, "AIDER_MAX_SESSIONS");
+  const idleSeconds = readNonNegative(env.AIDER_SESSION_IDLE_TIMEOUT, "AIDER_SESSION_IDLE_TIMEOUT");
+  return {
+    maxSessions:
+      maxSessions !== undefined ? Math.floor(maxSessions) : DEFAULT_SESSION_LIMITS.maxSessions,
+    idleMs: idleSeconds !== undefined ? idleSeconds * 1000 : DEFAULT_SESSION_LIMITS.idleMs,
+  };
+}
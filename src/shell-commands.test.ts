@@ -0,0 +1,110 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  commandLines,
+  findAskedCommand,
+  finishCommand,
+  formatCommandCall,
+  formatCommandOutput,
+  isShellLanguage,
+  runShellCommand,
+  type ShellCommandCall,
+} from "./shell-commands.js";
+import { readFileSync } from "node:fs";
+import { detectAiderQuestion } from "./question-parser.js";
+
+function call(command: string, overrides: Partial<ShellCommandCall> = {}): ShellCommandCall {
+  return { toolCallId: `shell_${command}`, command, status: "suggested", output: "", ...overrides };
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    return readFileSync(`/proc/${pid}/stat`, "utf8").split(" ")[2] !== "Z";
+  } catch {
+    return false;
+  }
+}
+
+describe("shell command suggestions", () => {
+  it("recognises the fence languages Aider offers to run", () => {
+    expect(isShellLanguage("bash")).toBe(true);
+    expect(isShellLanguage("PowerShell")).toBe(true);
+    expect(isShellLanguage("python")).toBe(false);
+    expect(isShellLanguage("")).toBe(false);
+  });
+
+  it("skips blank lines and comments like Aider does", () => {
+    expect(commandLines("# build it\nnpm install\n\nnpm run build  \n")).toEqual([
+      "npm install",
+      "npm run build",
+    ]);
+  });
+
+  it("matches a question to the block it shows", () => {
+    const calls = [call("npm install"), call("# check\nnpm test\nnpm run lint")];
+    const question = detectAiderQuestion(
+      "\nnpm test    \nnpm run lint\nRun shell commands? (Y)es/(N)o/(D)on't ask again [Yes]: ",
+    )!;
+
+    expect(findAskedCommand(calls, question)).toBe(calls[1]);
+    calls[1].status = "declined";
+    expect(findAskedCommand(calls, question)).toBe(calls[0]);
+  });
+});
+
+describe("command output", () => {
+  it("runs the lines in order and stops at the first that fails", async () => {
+    let output = "";
+    const exitCode = await runShellCommand("# check\necho first\nexit 3\necho never", {
+      cwd: process.cwd(),
+      env: {},
+      signal: new AbortController().signal,
+      onOutput: (text) => {
+        output += text;
+      },
+    });
+
+    expect(exitCode).toBe(3);
+    expect(output).toBe("Running echo first\nfirst\nRunning exit 3\n");
+  });
+
+  // Reads /proc, as an orphaned child killed with its group may linger as a zombie.
+  it.skipIf(process.platform !== "linux")(
+    "runs with the given environment and stops the whole process group on abort",
+    async () => {
+      const abort = new AbortController();
+      let output = "";
+      const exitCode = runShellCommand("echo $ACP_TEST_VALUE; sleep 30 & echo $!; wait", {
+        cwd: process.cwd(),
+        env: { ACP_TEST_VALUE: "from the profile" },
+        signal: abort.signal,
+        onOutput: (text) => {
+          output += text;
+        },
+      });
+
+      await vi.waitFor(() => expect(output).toMatch(/\n\d+\n$/));
+      const sleepPid = Number(output.trim().split("\n").pop());
+      abort.abort();
+
+      expect(await exitCode).not.toBe(0);
+      expect(output).toContain("from the profile\n");
+      await vi.waitFor(() => expect(isAlive(sleepPid)).toBe(false));
+    },
+  );
+
+  it("reports the exit code in the tool call and in what goes back to Aider", () => {
+    const failed = call("npm test", { status: "running", output: "\nRunning npm test\n1 failed\n" });
+    finishCommand(failed, 1);
+
+    expect(failed).toMatchObject({ status: "finished", exitCode: 1, output: "Running npm test\n1 failed" });
+    expect(formatCommandCall(failed)).toContain("Exit code: 1");
+    expect(formatCommandOutput(failed)).toBe("Output from npm test\nRunning npm test\n1 failed\nExit code: 1\n");
+  });
+
+  it("fences output so backticks inside cannot end the block", () => {
+    const finished = call("cat notes.md", { status: "finished", output: "```js\nx\n```" });
+
+    expect(formatCommandCall(finished)).toBe("```sh\ncat notes.md\n```\n\n````\n```js\nx\n```\n````");
+    expect(formatCommandCall(call("npm test", { status: "declined" }))).toBe("```sh\nnpm test\n```\n\nNot run.");
+  });
+});
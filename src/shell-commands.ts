@@ -0,0 +1,166 @@
+import { spawn } from "node:child_process";
+import { killGroupOnExit, signalProcessGroup } from "./process-groups.js";
+import { type AiderQuestion } from "./question-parser.js";
+
+// A fenced block of shell commands Aider suggested running.
+export interface ShellCommand {
+  language: string;
+  command: string;
+}
+
+// An execute tool call for one suggested block, from suggestion to output.
+export interface ShellCommandCall {
+  toolCallId: string;
+  command: string;
+  // "running" while the agent runs the approved command.
+  status: "suggested" | "running" | "declined" | "finished";
+  output: string;
+  exitCode?: number;
+}
+
+// The fence languages Aider offers to run, as listed in its edit block parser.
+const SHELL_LANGUAGES = new Set([
+  "bash",
+  "sh",
+  "shell",
+  "cmd",
+  "batch",
+  "powershell",
+  "ps1",
+  "zsh",
+  "fish",
+  "ksh",
+  "csh",
+  "tcsh",
+]);
+
+/**
+ * Runs an approved block in `cwd` with the environment Aider gets, passing
+ * output on as it arrives, and resolves with its exit code. Aider does not
+ * report exit statuses, so the agent runs commands itself instead of letting
+ * Aider run them.
+ */
+export type ShellCommandRunner = (
+  command: string,
+  options: {
+    cwd: string;
+    env: Record<string, string>;
+    signal: AbortSignal;
+    onOutput: (text: string) => void;
+  },
+) => Promise<number>;
+
+export function isShellLanguage(label: string): boolean {
+  return SHELL_LANGUAGES.has(label.trim().toLowerCase());
+}
+
+// The lines Aider runs one by one; blank lines and comments are skipped.
+export function commandLines(command: string): string[] {
+  return command
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith("#"));
+}
+
+export function isRunCommandQuestion(question: AiderQuestion): boolean {
+  return /^Run shell commands?\?/.test(question.question);
+}
+
+/**
+ * Picks the suggestion a "Run shell command?" question is about. Aider shows
+ * the block's lines as the subject, padded to the same width.
+ */
+export function findAskedCommand(
+  calls: ShellCommandCall[],
+  question: AiderQuestion,
+): ShellCommandCall | undefined {
+  const suggested = calls.filter((call) => call.status === "suggested");
+  const subject = commandLines(question.subject ?? "").join("\n");
+  return suggested.find((call) => commandLines(call.command).join("\n") === subject) ?? suggested[0];
+}
+
+// Runs the lines one by one like Aider would, stopping at the first that fails.
+export const runShellCommand: ShellCommandRunner = async (command, { cwd, env, signal, onOutput }) => {
+  for (const line of commandLines(command)) {
+    if (signal.aborted) {
+      return 1;
+    }
+    onOutput(`Running ${line}\n`);
+    const exitCode = await runCommandLine(line, cwd, env, signal, onOutput);
+    if (exitCode !== 0) {
+      return exitCode;
+    }
+  }
+  return 0;
+};
+
+function runCommandLine(
+  line: string,
+  cwd: string,
+  env: Record<string, string>,
+  signal: AbortSignal,
+  onOutput: (text: string) => void,
+): Promise<number> {
+  return new Promise((resolve) => {
+    const child = spawn(line, {
+      cwd,
+      env: { ...process.env, ...env },
+      shell: true,
+      stdio: ["ignore", "pipe", "pipe"],
+      // Own process group, so stopping the command also stops what the shell started.
+      detached: process.platform !== "win32",
+    });
+    killGroupOnExit(child);
+    const stop = (): void => signalProcessGroup(child, "SIGTERM");
+    signal.addEventListener("abort", stop, { once: true });
+
+    child.stdout.on("data", (chunk: Buffer) => onOutput(chunk.toString()));
+    child.stderr.on("data", (chunk: Buffer) => onOutput(chunk.toString()));
+    // A failed spawn emits "error" and may still emit "close"; the first one settles.
+    child.on("error", (error) => {
+      signal.removeEventListener("abort", stop);
+      onOutput(`${error.message}\n`);
+      resolve(1);
+    });
+    child.on("close", (code) => {
+      signal.removeEventListener("abort", stop);
+      resolve(code ?? 1);
+    });
+  });
+}
+
+export function finishCommand(call: ShellCommandCall, exitCode: number): void {
+  call.output = call.output.replace(/\r/g, "").replace(/^\n+/, "").trimEnd();
+  call.status = "finished";
+  call.exitCode = exitCode;
+}
+
+// How a finished command reaches Aider's chat, in the form Aider itself uses.
+export function formatCommandOutput(call: ShellCommandCall): string {
+  const output = call.output.length > 0 ? `${call.output}\n` : "";
+  return `Output from ${call.command.trim()}\n${output}Exit code: ${call.exitCode ?? "unknown"}\n`;
+}
+
+// What the tool call shows: the command, then its output and exit code once known.
+export function formatCommandCall(call: ShellCommandCall): string {
+  const parts = [fence(call.command, "sh")];
+  if (call.status === "declined") {
+    parts.push("Not run.");
+  } else {
+    const output = call.output.replace(/\r/g, "").replace(/^\n+/, "").trimEnd();
+    if (output.length > 0) {
+      parts.push(fence(output));
+    }
+  }
+  if (call.exitCode !== undefined) {
+    parts.push(`Exit code: ${call.exitCode}`);
+  }
+  return parts.join("\n\n");
+}
+
+// A fence longer than any backtick run inside, so command output cannot close it early.
+function fence(text: string, language = ""): string {
+  const longestRun = Math.max(2, ...Array.from(text.matchAll(/`+/g), (match) => match[0].length));
+  const ticks = "`".repeat(longestRun + 1);
+  return `${ticks}${language}\n${text}\n${ticks}`;
+}
@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  buildPromptMatcher,
+  endsWithAiderPrompt,
+  expectsModelReply,
+  readPromptMode,
+} from "./turn-framing.js";
+import { ScriptedAiderBackend } from "./scripted-backend.js";
+
+// Outputs that used to end a turn early because they end in ">". A chunk that
+// stops right after a "> " blockquote marker looks exactly like the prompt; the
+// longer quiet period before Aider's token report covers that case (see the
+// backend tests below).
+const adversarialOutputs: Array<[string, string]> = [
+  ["HTML closing tag", "Here is the markup:\n\n<div class=\"card\">\n  <p>Hi</p>\n</div>"],
+  ["generic type", "Use a `Map<string, Foo>`"],
+  ["generic type at line end", "const cache: Map<string, Foo>"],
+  ["quoted line with newline", "As the docs say:\n> \n"],
+  ["arrow function", "const add = (a, b) =>"],
+  ["shell redirect", "echo hi >"],
+  ["comparison", "if (a >"],
+  ["diff marker", ">>>>>>> REPLACE"],
+  ["prompt text mid-line", "type x> "],
+];
+
+const promptOutputs: Array<[string, string]> = [
+  ["bare prompt", "> "],
+  ["prompt after output", "Added file to the chat\n\n> "],
+  ["prompt without trailing space", "Done.\n>"],
+  ["architect mode", "Done.\narchitect> "],
+  ["ask mode", "Done.\nask> "],
+  ["edit format prefix", "Done.\ndiff-fenced> "],
+  ["multiline mode", "Done.\nask multi> "],
+  ["windows newlines", "Done.\r\n> "],
+];
+
+describe("endsWithAiderPrompt", () => {
+  const matcher = buildPromptMatcher();
+
+  it.each(adversarialOutputs)("does not end the turn on %s", (_name, output) => {
+    expect(endsWithAiderPrompt(output, matcher)).toBe(false);
+  });
+
+  it.each(promptOutputs)("recognises the %s", (_name, output) => {
+    expect(endsWithAiderPrompt(output, matcher)).toBe(true);
+  });
+
+  it("accepts configured prompt prefixes", () => {
+    expect(endsWithAiderPrompt("Done.\nmyformat> ", matcher)).toBe(false);
+    expect(endsWithAiderPrompt("Done.\nmyformat> ", buildPromptMatcher(["myformat"]))).toBe(true);
+  });
+});
+
+describe("readPromptMode", () => {
+  const matcher = buildPromptMatcher();
+
+  it("reads the mode in front of the prompt", () => {
+    expect(readPromptMode("Done.\narchitect> ", matcher)).toBe("architect");
+    expect(readPromptMode("Done.\r\nask multi> ", matcher)).toBe("ask multi");
+    expect(readPromptMode("Done.\n> ", matcher)).toBe("");
+  });
+
+  it("returns null when the output does not end at the prompt", () => {
+    expect(readPromptMode("const cache: Map<string, Foo>", matcher)).toBeNull();
+    expect(readPromptMode("architect> \nmore output\n", matcher)).toBeNull();
+  });
+});
+
+describe("expectsModelReply", () => {
+  it("expects a reply to chat messages and commands that message the model", () => {
+    expect(expectsModelReply("Explain the parser")).toBe(true);
+    expect(expectsModelReply("/ask why does this fail?")).toBe(true);
+    expect(expectsModelReply("/architect split the module")).toBe(true);
+  });
+
+  it("does not expect one for commands Aider answers itself", () => {
+    expect(expectsModelReply("/add src/index.ts")).toBe(false);
+    expect(expectsModelReply("/ask")).toBe(false);
+    expect(expectsModelReply("/run npm test")).toBe(false);
+    expect(expectsModelReply("!ls")).toBe(false);
+    expect(expectsModelReply("")).toBe(false);
+  });
+});
+
+describe("turn completion in the backend", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function startedBackend(
+    chunks: string[],
+    command = "question",
+  ): { backend: ScriptedAiderBackend; completed: string[] } {
+    const backend = new ScriptedAiderBackend(
+      {
+        events: [
+          { type: "stdout", data: "> " },
+          { type: "input" },
+          ...chunks.map((data) => ({ type: "stdout" as const, data, delayMs: 10 })),
+        ],
+      },
+      { turnFraming: { settleMs: 50 } },
+    );
+    const completed: string[] = [];
+    backend.start();
+    vi.advanceTimersByTime(100);
+    backend.on("turn_completed", (output: string) => completed.push(output));
+    backend.sendCommand(command);
+    return { backend, completed };
+  }
+
+  it("waits for more output after a prompt-like line", () => {
+    const { completed } = startedBackend([
+      "Quote:\n> ",
+      "the rest of the quote\n",
+      "\nTokens: 1.2k sent, 40 received.\n> ",
+    ]);
+
+    vi.advanceTimersByTime(1_000);
+    expect(completed).toHaveLength(1);
+    expect(completed[0]).toContain("the rest of the quote");
+  });
+
+  it("outlasts a provider stall after a blockquote marker at a chunk boundary", () => {
+    const backend = new ScriptedAiderBackend({
+      events: [
+        { type: "stdout", data: "> " },
+        { type: "input" },
+        { type: "stdout", data: "The docs say:\n\n> ", delayMs: 10 },
+        { type: "stdout", data: "Run the migration first.\n\n", delayMs: 2_000 },
+        { type: "stdout", data: "Tokens: 1.2k sent, 40 received.\n> " },
+      ],
+    });
+    const completed: string[] = [];
+    backend.start();
+    vi.advanceTimersByTime(1_000);
+    backend.on("turn_completed", (output: string) => completed.push(output));
+    backend.sendCommand("question");
+
+    vi.advanceTimersByTime(1_500);
+    expect(completed).toEqual([]);
+    vi.advanceTimersByTime(1_000);
+    expect(completed).toHaveLength(1);
+    expect(completed[0]).toContain("Run the migration first.");
+  });
+
+  it("settles quickly after commands that Aider answers without the model", () => {
+    const backend = new ScriptedAiderBackend(
+      {
+        events: [
+          { type: "stdout", data: "> " },
+          { type: "input" },
+          { type: "stdout", data: "Added src/index.ts to the chat\n> ", delayMs: 10 },
+        ],
+      },
+      { turnFraming: { settleMs: 50 } },
+    );
+    const completed: string[] = [];
+    backend.start();
+    vi.advanceTimersByTime(100);
+    backend.on("turn_completed", (output: string) => completed.push(output));
+    backend.sendCommand("/add src/index.ts");
+
+    vi.advanceTimersByTime(100);
+    expect(completed).toEqual(["Added src/index.ts to the chat\n> "]);
+  });
+
+  it("filters the echo of multi-line input in its {...} wrapper", () => {
+    const { backend, completed } = startedBackend([
+      "> {\nFix this:\n> quoted line\n}\n",
+      "Fixed.\nTokens: 1.2k sent, 40 received.\n> ",
+    ], "Fix this:\n> quoted line");
+    const chunks: string[] = [];
+    backend.on("data", (chunk: string) => chunks.push(chunk));
+
+    vi.advanceTimersByTime(1_000);
+    expect(chunks.join("")).toBe("Fixed.\nTokens: 1.2k sent, 40 received.\n> ");
+    expect(completed).toHaveLength(1);
+  });
+
+  it("never completes on output ending in a generic type", () => {
+    const { completed } = startedBackend(["Use `Map<string, Foo>`"]);
+
+    vi.advanceTimersByTime(1_000);
+    expect(completed).toEqual([]);
+  });
+
+  it("completes immediately when the next command is written", () => {
+    const { backend, completed } = startedBackend(["Done.\n> "]);
+
+    vi.advanceTimersByTime(10);
+    expect(completed).toEqual([]);
+    backend.sendCommand("next");
+    expect(completed).toHaveLength(1);
+  });
+});
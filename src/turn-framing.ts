@@ -0,0 +1,97 @@
+export interface TurnFramingOptions {
+  // Extra prompt prefixes, e.g. a custom edit format that Aider shows as "myformat> ".
+  promptPrefixes: string[];
+  // How long output must stay quiet after a prompt before the turn counts as complete.
+  // A blockquote line cut off after "> " looks like the prompt until the model
+  // continues, so this has to outlast a short stall in the provider's stream.
+  settleMs: number;
+  // The quiet period used instead while a chat message is still waiting for the
+  // model's reply, i.e. before Aider's "Tokens: ... sent" report. Providers can
+  // pause for seconds mid-stream, right after a chunk that ends in "> ".
+  stallMs: number;
+}
+
+// Aider prefixes its input prompt with the chat mode or edit format when it
+// differs from the model default, and adds "multi" in multiline mode.
+const KNOWN_PROMPT_PREFIXES = [
+  "ask",
+  "architect",
+  "code",
+  "context",
+  "help",
+  "diff",
+  "diff-fenced",
+  "whole",
+  "udiff",
+  "udiff-simple",
+  "patch",
+  "editor-diff",
+  "editor-diff-fenced",
+  "editor-whole",
+];
+
+export const DEFAULT_TURN_FRAMING: TurnFramingOptions = {
+  promptPrefixes: [],
+  settleMs: 300,
+  stallMs: 3000,
+};
+
+// Slash commands that send their argument to the model like a chat message.
+const MODEL_COMMANDS = new Set(["ask", "code", "architect", "context", "help"]);
+
+/**
+ * True when Aider will answer the input with a model reply, which it always
+ * ends with a token report. Other commands (/add, /run, !ls, ...) answer
+ * locally and return straight to the prompt.
+ */
+export function expectsModelReply(input: string): boolean {
+  const text = input.trim();
+  if (text.length === 0 || text.startsWith("!")) {
+    return false;
+  }
+  const command = text.match(/^\/(\S+)(\s+\S)?/);
+  if (!command) {
+    return true;
+  }
+  return MODEL_COMMANDS.has(command[1]) && command[2] !== undefined;
+}
+
+export function hasUsageReport(buffer: string): boolean {
+  return /(?:^|\n)Tokens: [\d.,]+k? sent\b/.test(buffer.replace(/\r/g, ""));
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Builds a matcher for Aider's input prompt as the last line of the buffer.
+ * The prompt is printed without a trailing newline, so a `>` followed by a
+ * newline (blockquotes, HTML, generics) never matches.
+ */
+export function buildPromptMatcher(extraPrefixes: string[] = []): RegExp {
+  const prefixes = [...KNOWN_PROMPT_PREFIXES, ...extraPrefixes]
+    .map((prefix) => prefix.trim())
+    .filter((prefix) => prefix.length > 0)
+    .map(escapeRegExp);
+  const prefixGroup = `(?:(?:${prefixes.join("|")})(?: multi)?|multi)?`;
+  return new RegExp(`(?:^|\\n)${prefixGroup}> ?[ \\t]*$`);
+}
+
+export function endsWithAiderPrompt(buffer: string, matcher: RegExp): boolean {
+  return matcher.test(buffer.replace(/\r/g, ""));
+}
+
+/**
+ * Reads the chat mode or edit format Aider shows before its prompt, e.g.
+ * "architect" for "architect> ". Returns "" for a bare "> " and null when the
+ * buffer does not end at the prompt.
+ */
+export function readPromptMode(buffer: string, matcher: RegExp): string | null {
+  const text = buffer.replace(/\r/g, "");
+  if (!matcher.test(text)) {
+    return null;
+  }
+  const match = text.match(/(?:^|\n)([^\n>]*)> ?[ \t]*$/);
+  return match ? match[1].trim() : null;
+}
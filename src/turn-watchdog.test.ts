@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  DEFAULT_TURN_TIMEOUTS,
+  TurnWatchdog,
+  loadTurnTimeouts,
+  type WatchdogTrigger,
+} from "./turn-watchdog.js";
+
+describe("loadTurnTimeouts", () => {
+  it("uses defaults when nothing is configured", () => {
+    expect(loadTurnTimeouts({})).toEqual(DEFAULT_TURN_TIMEOUTS);
+  });
+
+  it("reads timeouts in seconds from the environment", () => {
+    const timeouts = loadTurnTimeouts({
+      AIDER_TURN_TIMEOUT: "600",
+      AIDER_COMMAND_TIMEOUT: "0",
+      AIDER_IDLE_TIMEOUT: "45",
+    });
+    expect(timeouts).toEqual({ turnMs: 600_000, commandMs: 0, idleMs: 45_000 });
+  });
+
+  it("ignores invalid values", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(loadTurnTimeouts({ AIDER_IDLE_TIMEOUT: "soon" }).idleMs).toBe(
+      DEFAULT_TURN_TIMEOUTS.idleMs,
+    );
+    warn.mockRestore();
+  });
+});
+
+describe("TurnWatchdog", () => {
+  let fired: WatchdogTrigger[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    fired = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("fires the idle timer when no output arrives", () => {
+    const watchdog = new TurnWatchdog({ turnMs: 0, commandMs: 0, idleMs: 1_000 }, (trigger) =>
+      fired.push(trigger),
+    );
+    watchdog.start();
+
+    vi.advanceTimersByTime(1_000);
+    expect(fired).toEqual(["idle"]);
+  });
+
+  it("resets the idle timer on activity", () => {
+    const watchdog = new TurnWatchdog({ turnMs: 0, commandMs: 0, idleMs: 1_000 }, (trigger) =>
+      fired.push(trigger),
+    );
+    watchdog.start();
+
+    vi.advanceTimersByTime(800);
+    watchdog.activity();
+    vi.advanceTimersByTime(800);
+    expect(fired).toEqual([]);
+  });
+
+  it("fires the command timer despite activity", () => {
+    const watchdog = new TurnWatchdog({ turnMs: 0, commandMs: 1_000, idleMs: 0 }, (trigger) =>
+      fired.push(trigger),
+    );
+    watchdog.start();
+
+    vi.advanceTimersByTime(500);
+    watchdog.activity();
+    vi.advanceTimersByTime(500);
+    expect(fired).toEqual(["command"]);
+  });
+
+  it("honours the remaining time of the turn deadline", () => {
+    const watchdog = new TurnWatchdog(
+      { turnMs: 5_000, commandMs: 0, idleMs: 0 },
+      (trigger) => fired.push(trigger),
+      Date.now() + 200,
+    );
+    watchdog.start();
+
+    vi.advanceTimersByTime(200);
+    expect(fired).toEqual(["turn"]);
+  });
+
+  it("re-arms a fired timer and extends the turn deadline", () => {
+    const watchdog = new TurnWatchdog(
+      { turnMs: 1_000, commandMs: 0, idleMs: 0 },
+      (trigger) => fired.push(trigger),
+      Date.now() + 1_000,
+    );
+    watchdog.start();
+    vi.advanceTimersByTime(1_000);
+
+    const deadline = watchdog.rearm("turn");
+    expect(deadline).toBe(Date.now() + 1_000);
+    vi.advanceTimersByTime(1_000);
+    expect(fired).toEqual(["turn", "turn"]);
+  });
+
+  it("does not fire after stop", () => {
+    const watchdog = new TurnWatchdog({ turnMs: 0, commandMs: 100, idleMs: 100 }, (trigger) =>
+      fired.push(trigger),
+    );
+    watchdog.start();
+    watchdog.stop();
+
+    vi.advanceTimersByTime(1_000);
+    expect(fired).toEqual([]);
+  });
+});
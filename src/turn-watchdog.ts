@@ -0,0 +1,127 @@
+export interface TurnTimeouts {
+  // Whole `session/prompt` request, across every command it sends. 0 disables.
+  turnMs: number;
+  // A single command sent to Aider. 0 disables.
+  commandMs: number;
+  // Time without any output from Aider. 0 disables.
+  idleMs: number;
+}
+
+export const DEFAULT_TURN_TIMEOUTS: TurnTimeouts = {
+  turnMs: 30 * 60_000,
+  commandMs: 10 * 60_000,
+  idleMs: 3 * 60_000,
+};
+
+export type WatchdogTrigger = "turn" | "command" | "idle";
+
+function readSeconds(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim().length === 0) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds < 0) {
+    console.warn(`Ignoring invalid timeout value "${value}".`);
+    return undefined;
+  }
+  return seconds * 1000;
+}
+
+/**
+ * Reads timeout overrides (in seconds) from AIDER_TURN_TIMEOUT,
+ * AIDER_COMMAND_TIMEOUT and AIDER_IDLE_TIMEOUT.
+ */
+export function loadTurnTimeouts(env: NodeJS.ProcessEnv = process.env): TurnTimeouts {
+  return {
+    turnMs: readSeconds(env.AIDER_TURN_TIMEOUT) ?? DEFAULT_TURN_TIMEOUTS.turnMs,
+    commandMs: readSeconds(env.AIDER_COMMAND_TIMEOUT) ?? DEFAULT_TURN_TIMEOUTS.commandMs,
+    idleMs: readSeconds(env.AIDER_IDLE_TIMEOUT) ?? DEFAULT_TURN_TIMEOUTS.idleMs,
+  };
+}
+
+/**
+ * Arms the command, idle and turn timers for one command sent to Aider and
+ * reports the first one that fires. Timers stay disarmed until `rearm` is called.
+ */
+export class TurnWatchdog {
+  private timers = new Map<WatchdogTrigger, NodeJS.Timeout>();
+  private stopped = false;
+  private readonly timeouts: TurnTimeouts;
+  private readonly onTimeout: (trigger: WatchdogTrigger) => void;
+  private turnDeadline?: number;
+
+  constructor(
+    timeouts: TurnTimeouts,
+    onTimeout: (trigger: WatchdogTrigger) => void,
+    turnDeadline?: number,
+  ) {
+    this.timeouts = timeouts;
+    this.onTimeout = onTimeout;
+    this.turnDeadline = turnDeadline;
+  }
+
+  public start(): void {
+    this.arm("command", this.timeouts.commandMs);
+    this.arm("idle", this.timeouts.idleMs);
+    if (this.turnDeadline !== undefined) {
+      this.arm("turn", Math.max(this.turnDeadline - Date.now(), 1));
+    }
+  }
+
+  // Called whenever Aider prints something.
+  public activity(): void {
+    if (this.timers.has("idle")) {
+      this.arm("idle", this.timeouts.idleMs);
+    }
+  }
+
+  public rearm(trigger: WatchdogTrigger): number | undefined {
+    const duration = this.durationFor(trigger);
+    this.arm(trigger, duration);
+    if (trigger === "turn" && duration > 0) {
+      this.turnDeadline = Date.now() + duration;
+      return this.turnDeadline;
+    }
+    return undefined;
+  }
+
+  public stop(): void {
+    this.stopped = true;
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  private durationFor(trigger: WatchdogTrigger): number {
+    switch (trigger) {
+      case "turn":
+        return this.timeouts.turnMs;
+      case "command":
+        return this.timeouts.commandMs;
+      case "idle":
+        return this.timeouts.idleMs;
+    }
+  }
+
+  private arm(trigger: WatchdogTrigger, durationMs: number): void {
+    const existing = this.timers.get(trigger);
+    if (existing) {
+      clearTimeout(existing);
+      this.timers.delete(trigger);
+    }
+    if (this.stopped || durationMs <= 0 || this.durationFor(trigger) <= 0) {
+      return;
+    }
+
+    this.timers.set(
+      trigger,
+      setTimeout(() => {
+        this.timers.delete(trigger);
+        if (!this.stopped) {
+          this.onTimeout(trigger);
+        }
+      }, durationMs),
+    );
+  }
+}
@@ -1,4 +1,12 @@
-import { AiderProcessManager } from "./aider-runner.js";
+import { AiderBackend } from "./aider-backend.js";
+import { AiderSupervisor } from "./aider-supervisor.js";
+import { ArchitectTurn } from "./architect.js";
+import { AiderCommandQueue } from "./command-queue.js";
+import { FileSnapshots } from "./file-snapshots.js";
+import { AiderLaunchProfile } from "./launch-profile.js";
+import { ProviderError } from "./provider-errors.js";
+import { ShellCommandCall } from "./shell-commands.js";
+import { UsageTotals } from "./usage.js";
 
 // File tracking with edit/read-only distinction
 export interface TrackedFile {
@@ -15,14 +23,54 @@ export interface SessionState {
   files: string[];
   readOnlyFiles: string[];
   workingDir: string;
-  aiderProcess?: AiderProcessManager;
-  commandQueue: string[];
+  launchProfile?: AiderLaunchProfile;
+  aiderProcess?: AiderBackend;
+  supervisor?: AiderSupervisor;
+  // Resolves once a crashed Aider process has been restarted (true) or abandoned (false).
+  restarting?: Promise<boolean>;
+  // Serializes commands to the current aiderProcess; replaced whenever it is.
+  commandQueue?: AiderCommandQueue;
   pendingPromptId?: string | number;
   lastPromptText?: string;
   cancelled?: boolean;
+  // Epoch milliseconds after which the turn watchdog asks whether to keep waiting.
+  turnDeadline?: number;
+  // Epoch milliseconds of the last prompt; picks which session to close at the session limit.
+  lastActivity: number;
+  activePrompts?: number;
+  // Set while Aider is stopped for being idle; the next prompt restarts it.
+  suspended?: boolean;
+  idleTimer?: NodeJS.Timeout;
   currentMode?: string;
   currentPlan?: Plan;
   activeToolCalls?: Map<string, ToolCallState>;
+  // Files as they were before the current turn, and its edits waiting for Aider to write them.
+  fileSnapshots?: FileSnapshots;
+  pendingEdits?: Map<string, PendingEdit>;
+  // Resolves once the edits of the last finished turn have been reported.
+  editsReported?: Promise<void>;
+  // Token and cost totals for the whole session and for the prompt in progress.
+  usage?: UsageTotals;
+  turnUsage?: UsageTotals;
+  // A provider failure (rate limit, bad key, ...) that the prompt in progress ran into.
+  providerError?: ProviderError;
+  // The mode shown in Aider's last prompt, e.g. "architect" for "architect> ".
+  promptMode?: string;
+  // Set while an architect turn is in progress.
+  architect?: ArchitectTurn;
+  // Shell commands Aider suggested in the turn in progress, as execute tool calls.
+  shellCommands?: ShellCommandCall[];
+  // Stops the approved command the agent is running for Aider.
+  runningCommand?: AbortController;
+  // Output of the commands run in the turn in progress, sent to Aider before it ends.
+  commandOutput?: string;
+}
+
+// An edit tool call that shows the parsed blocks until the turn ends.
+export interface PendingEdit {
+  toolCallId: string;
+  diffs: Array<{ type: "diff"; path: string; oldText: string | null; newText: string }>;
+  line?: number;
 }
 
 export interface ToolCallState {
@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import { parseUnifiedDiff } from "./udiff-parser.js";
+
+describe("parseUnifiedDiff", () => {
+  it("reads numbered hunks with context lines and strips git prefixes", () => {
+    const diff = [
+      "diff --git a/src/app.py b/src/app.py",
+      "index 83db48f..bf269f4 100644",
+      "--- a/src/app.py",
+      "+++ b/src/app.py",
+      "@@ -1,3 +1,4 @@",
+      "+import math",
+      " from flask import Flask",
+      " ",
+      " app = Flask(__name__)",
+      "@@ -10,2 +11,2 @@ def factorial(n):",
+      "-    return str(factorial(n))",
+      "+    return str(math.factorial(n))",
+      " ",
+    ].join("\n");
+
+    expect(parseUnifiedDiff(diff)).toEqual([
+      {
+        path: "src/app.py",
+        created: false,
+        deleted: false,
+        hunks: [
+          {
+            oldStart: 1,
+            newStart: 1,
+            oldLines: ["from flask import Flask", "", "app = Flask(__name__)"],
+            newLines: ["import math", "from flask import Flask", "", "app = Flask(__name__)"],
+          },
+          {
+            oldStart: 10,
+            newStart: 11,
+            oldLines: ["    return str(factorial(n))", ""],
+            newLines: ["    return str(math.factorial(n))", ""],
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("returns one entry per file", () => {
+    const diff = [
+      "--- a.txt",
+      "+++ a.txt",
+      "@@ -1 +1 @@",
+      "-one",
+      "+uno",
+      "--- b.txt",
+      "+++ b.txt",
+      "@@ -2 +2 @@",
+      "-two",
+      "+dos",
+    ].join("\n");
+
+    const files = parseUnifiedDiff(diff);
+    expect(files.map((file) => file.path)).toEqual(["a.txt", "b.txt"]);
+    expect(files[1].hunks[0]).toEqual({ oldStart: 2, newStart: 2, oldLines: ["two"], newLines: ["dos"] });
+  });
+
+  it("recognises created and deleted files", () => {
+    const diff = [
+      "--- /dev/null",
+      "+++ b/docs/new.md",
+      "@@ -0,0 +1,2 @@",
+      "+# New",
+      "+",
+      "--- a/old.txt",
+      "+++ /dev/null",
+      "@@ -1 +0,0 @@",
+      "-gone",
+      "\\ No newline at end of file",
+    ].join("\n");
+
+    const [created, deleted] = parseUnifiedDiff(diff);
+    expect(created).toMatchObject({ path: "docs/new.md", created: true, deleted: false });
+    expect(created.hunks[0].newLines).toEqual(["# New", ""]);
+    expect(deleted).toMatchObject({ path: "old.txt", created: false, deleted: true });
+    expect(deleted.hunks[0].oldLines).toEqual(["gone"]);
+  });
+
+  it("merges Aider's repeated file sections and reads hunks without line numbers", () => {
+    const diff = [
+      "--- mathweb/flask/app.py",
+      "+++ mathweb/flask/app.py",
+      "@@ ... @@",
+      "-class MathWeb:",
+      "+import sympy",
+      "+",
+      "+class MathWeb:",
+      "",
+      "--- mathweb/flask/app.py",
+      "+++ mathweb/flask/app.py",
+      "@@ ... @@",
+      " def run():",
+      "-    pass",
+      "+    serve()",
+      "",
+    ].join("\n");
+
+    const files = parseUnifiedDiff(diff);
+    expect(files).toHaveLength(1);
+    expect(files[0].hunks).toEqual([
+      {
+        oldStart: null,
+        newStart: null,
+        oldLines: ["class MathWeb:"],
+        newLines: ["import sympy", "", "class MathWeb:"],
+      },
+      {
+        oldStart: null,
+        newStart: null,
+        oldLines: ["def run():", "    pass"],
+        newLines: ["def run():", "    serve()"],
+      },
+    ]);
+  });
+
+  it("keeps paths without git prefixes as they are", () => {
+    const diff = ["--- a/x.py\t2024-01-01 10:00:00", "+++ src/x.py", "@@ -1 +1 @@", "-a", "+b"].join("\n");
+
+    expect(parseUnifiedDiff(diff)[0].path).toBe("src/x.py");
+  });
+});
@@ -0,0 +1,154 @@
+export interface DiffHunk {
+  // 1-based; null when the header has no line numbers, as in Aider's "@@ ... @@".
+  oldStart: number | null;
+  newStart: number | null;
+  // Context and removed lines, without their prefix.
+  oldLines: string[];
+  // Context and added lines, without their prefix.
+  newLines: string[];
+}
+
+export interface UnifiedDiffFile {
+  path: string;
+  created: boolean;
+  deleted: boolean;
+  hunks: DiffHunk[];
+}
+
+const DEV_NULL = "/dev/null";
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+interface FileHeader {
+  oldPath: string;
+  newPath: string;
+}
+
+function readHeaderPath(line: string): string {
+  // "--- a/file.py\t2024-01-01 10:00:00" carries an optional tab-separated timestamp.
+  const value = line.substring(4).split("\t")[0].trim();
+  if (value.startsWith('"') && value.endsWith('"') && value.length > 1) {
+    return value.slice(1, -1);
+  }
+  return value;
+}
+
+function stripGitPrefixes(header: FileHeader): FileHeader {
+  const oldPrefixed = header.oldPath === DEV_NULL || header.oldPath.startsWith("a/");
+  const newPrefixed = header.newPath === DEV_NULL || header.newPath.startsWith("b/");
+  if (!oldPrefixed || !newPrefixed || (header.oldPath === DEV_NULL && header.newPath === DEV_NULL)) {
+    return header;
+  }
+  return {
+    oldPath: header.oldPath === DEV_NULL ? DEV_NULL : header.oldPath.substring(2),
+    newPath: header.newPath === DEV_NULL ? DEV_NULL : header.newPath.substring(2),
+  };
+}
+
+function isFileHeaderAt(lines: string[], index: number): boolean {
+  return lines[index].startsWith("--- ") && (lines[index + 1]?.startsWith("+++ ") ?? false);
+}
+
+/**
+ * Parses a unified diff into one entry per file. Git-style `a/` and `b/`
+ * prefixes are removed, `/dev/null` marks created and deleted files, and
+ * sections that repeat a file (Aider emits one per hunk) are merged.
+ *
+ * Hunks with line counts are read exactly; Aider's `@@ ... @@` hunks have
+ * none and run until the next hunk or file header.
+ */
+export function parseUnifiedDiff(content: string): UnifiedDiffFile[] {
+  const lines = content.replace(/\r\n/g, "\n").split("\n");
+  const files: UnifiedDiffFile[] = [];
+  let current: UnifiedDiffFile | null = null;
+
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (isFileHeaderAt(lines, index)) {
+      const header = stripGitPrefixes({
+        oldPath: readHeaderPath(line),
+        newPath: readHeaderPath(lines[index + 1]),
+      });
+      const created = header.oldPath === DEV_NULL;
+      const deleted = header.newPath === DEV_NULL;
+      const path = deleted ? header.oldPath : header.newPath || header.oldPath;
+
+      current = files.find((file) => file.path === path) ?? null;
+      if (!current) {
+        current = { path, created, deleted, hunks: [] };
+        files.push(current);
+      }
+      index += 2;
+      continue;
+    }
+
+    if (line.startsWith("@@") && current) {
+      index = readHunk(lines, index, current);
+      continue;
+    }
+
+    // "diff --git", "index", mode lines and any prose around the diff.
+    index += 1;
+  }
+
+  return files.filter((file) => file.path.length > 0 && file.path !== DEV_NULL);
+}
+
+function readHunk(lines: string[], headerIndex: number, file: UnifiedDiffFile): number {
+  const match = lines[headerIndex].match(HUNK_HEADER);
+  const hunk: DiffHunk = {
+    oldStart: match ? Number(match[1]) : null,
+    newStart: match ? Number(match[3]) : null,
+    oldLines: [],
+    newLines: [],
+  };
+  file.hunks.push(hunk);
+
+  let oldRemaining = match ? Number(match[2] ?? "1") : Infinity;
+  let newRemaining = match ? Number(match[4] ?? "1") : Infinity;
+  let index = headerIndex + 1;
+  let trailingBlankLines = 0;
+
+  while (index < lines.length && (oldRemaining > 0 || newRemaining > 0)) {
+    const line = lines[index];
+
+    if (!match && (line.startsWith("@@") || isFileHeaderAt(lines, index))) {
+      break;
+    }
+
+    if (line.startsWith("\\")) {
+      // "\ No newline at end of file"
+      index += 1;
+      continue;
+    }
+
+    trailingBlankLines = line.length === 0 ? trailingBlankLines + 1 : 0;
+    const marker = line.charAt(0);
+    const text = line.substring(1);
+    if (marker === "-") {
+      hunk.oldLines.push(text);
+      oldRemaining -= 1;
+    } else if (marker === "+") {
+      hunk.newLines.push(text);
+      newRemaining -= 1;
+    } else if (marker === " " || line.length === 0) {
+      // Models often drop the space in front of blank context lines.
+      hunk.oldLines.push(text);
+      hunk.newLines.push(text);
+      oldRemaining -= 1;
+      newRemaining -= 1;
+    } else {
+      break;
+    }
+    index += 1;
+  }
+
+  // Without counts, empty lines at the end separate this hunk from what follows.
+  if (!match && trailingBlankLines > 0) {
+    hunk.oldLines.splice(-trailingBlankLines);
+    hunk.newLines.splice(-trailingBlankLines);
+  }
+
+  return index;
+}
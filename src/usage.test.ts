@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { addUsage, emptyUsage, formatUsageSummary, parseTokenCount, parseUsageReport } from "./usage.js";
+
+describe("parseUsageReport", () => {
+  it("reads token counts, cache usage and costs", () => {
+    expect(
+      parseUsageReport(
+        "Tokens: 12k sent, 3.1k cache write, 8.2k cache hit, 419 received. Cost: $0.04 message, $0.10 session.",
+      ),
+    ).toEqual({
+      sent: 12_000,
+      received: 419,
+      cacheHit: 8_200,
+      cacheWrite: 3_100,
+      messageCost: 0.04,
+      sessionCost: 0.1,
+    });
+  });
+
+  it("leaves costs undefined when Aider does not print them", () => {
+    expect(parseUsageReport("Tokens: 2.5k sent, 105 received.")).toEqual({
+      sent: 2_500,
+      received: 105,
+      cacheHit: 0,
+      cacheWrite: 0,
+      messageCost: undefined,
+      sessionCost: undefined,
+    });
+  });
+
+  it("returns null for text without usage", () => {
+    expect(parseUsageReport("Tokens are counted per message")).toBeNull();
+  });
+});
+
+describe("parseTokenCount", () => {
+  it("expands Aider's abbreviations", () => {
+    expect(parseTokenCount("950")).toBe(950);
+    expect(parseTokenCount("2.5", "k")).toBe(2_500);
+    expect(parseTokenCount("1.2", "M")).toBe(1_200_000);
+    expect(parseTokenCount("12,345")).toBe(12_345);
+  });
+});
+
+describe("usage totals", () => {
+  it("adds reports and summarizes a turn against the session", () => {
+    const first = parseUsageReport("Tokens: 2.5k sent, 105 received. Cost: $0.0085 message, $0.0085 session.")!;
+    const second = parseUsageReport(
+      "Tokens: 3.0k sent, 1.0k cache hit, 200 received. Cost: $0.01 message, $0.0185 session.",
+    )!;
+
+    const session = addUsage(addUsage(emptyUsage(), first), second);
+    const turn = addUsage(emptyUsage(), second);
+
+    expect(session).toMatchObject({ sent: 5_500, received: 305, cacheHit: 1_000, cacheWrite: 0, reports: 2 });
+    expect(session.cost).toBeCloseTo(0.0185);
+    expect(formatUsageSummary(turn, session)).toBe(
+      "📊 3.0k sent, 1.0k cache hit, 200 received · $0.0100 (session $0.0185)",
+    );
+  });
+
+  it("omits costs when none were reported", () => {
+    const turn = addUsage(emptyUsage(), parseUsageReport("Tokens: 800 sent, 40 received.")!);
+    expect(formatUsageSummary(turn, turn)).toBe("📊 800 sent, 40 received");
+  });
+});
@@ -0,0 +1,115 @@
+// One "Tokens: ... Cost: ..." report that Aider prints after each LLM response.
+export interface UsageReport {
+  sent: number;
+  received: number;
+  cacheHit: number;
+  cacheWrite: number;
+  // Dollars; undefined when Aider does not know the model's pricing.
+  messageCost?: number;
+  sessionCost?: number;
+}
+
+export interface UsageTotals {
+  sent: number;
+  received: number;
+  cacheHit: number;
+  cacheWrite: number;
+  cost: number;
+  // How many reports were added; 0 means Aider printed no usage.
+  reports: number;
+}
+
+const COUNT = "([\\d.,]+)\\s*([kKmM])?";
+const SENT_PATTERN = new RegExp(`${COUNT} sent`);
+const RECEIVED_PATTERN = new RegExp(`${COUNT} received`);
+const CACHE_HIT_PATTERN = new RegExp(`${COUNT} cache hit`);
+const CACHE_WRITE_PATTERN = new RegExp(`${COUNT} cache write`);
+const MESSAGE_COST_PATTERN = /\$\s*([\d.,]+) message/;
+const SESSION_COST_PATTERN = /\$\s*([\d.,]+) session/;
+
+export function emptyUsage(): UsageTotals {
+  return { sent: 0, received: 0, cacheHit: 0, cacheWrite: 0, cost: 0, reports: 0 };
+}
+
+// Aider abbreviates counts as "950", "2.5k" or "12k".
+export function parseTokenCount(value: string, suffix?: string): number {
+  const number = Number(value.replace(/,/g, ""));
+  if (!Number.isFinite(number)) {
+    return 0;
+  }
+  const multiplier = suffix?.toLowerCase() === "m" ? 1_000_000 : suffix?.toLowerCase() === "k" ? 1000 : 1;
+  return Math.round(number * multiplier);
+}
+
+function readCount(text: string, pattern: RegExp): number | undefined {
+  const match = text.match(pattern);
+  return match ? parseTokenCount(match[1], match[2]) : undefined;
+}
+
+function readCost(text: string, pattern: RegExp): number | undefined {
+  const match = text.match(pattern);
+  if (!match) return undefined;
+  const cost = Number(match[1].replace(/,/g, ""));
+  return Number.isFinite(cost) ? cost : undefined;
+}
+
+/**
+ * Parses a line such as
+ * "Tokens: 12k sent, 3.1k cache write, 8.2k cache hit, 419 received. Cost: $0.04 message, $0.10 session."
+ * Returns null when the text has neither token counts nor costs.
+ */
+export function parseUsageReport(text: string): UsageReport | null {
+  const sent = readCount(text, SENT_PATTERN);
+  const received = readCount(text, RECEIVED_PATTERN);
+  const messageCost = readCost(text, MESSAGE_COST_PATTERN);
+  const sessionCost = readCost(text, SESSION_COST_PATTERN);
+
+  if (sent === undefined && received === undefined && messageCost === undefined && sessionCost === undefined) {
+    return null;
+  }
+
+  return {
+    sent: sent ?? 0,
+    received: received ?? 0,
+    cacheHit: readCount(text, CACHE_HIT_PATTERN) ?? 0,
+    cacheWrite: readCount(text, CACHE_WRITE_PATTERN) ?? 0,
+    messageCost,
+    sessionCost,
+  };
+}
+
+export function addUsage(totals: UsageTotals, report: UsageReport): UsageTotals {
+  return {
+    sent: totals.sent + report.sent,
+    received: totals.received + report.received,
+    cacheHit: totals.cacheHit + report.cacheHit,
+    cacheWrite: totals.cacheWrite + report.cacheWrite,
+    cost: totals.cost + (report.messageCost ?? 0),
+    reports: totals.reports + 1,
+  };
+}
+
+function formatTokenCount(count: number): string {
+  if (count < 1000) return `${count}`;
+  if (count < 10_000) return `${(count / 1000).toFixed(1)}k`;
+  if (count < 1_000_000) return `${Math.round(count / 1000)}k`;
+  return `${(count / 1_000_000).toFixed(1)}M`;
+}
+
+function formatCost(cost: number): string {
+  return `$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
+
+// A single line for the end of a turn, e.g. "📊 2.5k sent, 105 received · $0.0085 (session $0.0200)".
+export function formatUsageSummary(turn: UsageTotals, session: UsageTotals): string {
+  const tokens = [`${formatTokenCount(turn.sent)} sent`];
+  if (turn.cacheHit > 0) tokens.push(`${formatTokenCount(turn.cacheHit)} cache hit`);
+  if (turn.cacheWrite > 0) tokens.push(`${formatTokenCount(turn.cacheWrite)} cache write`);
+  tokens.push(`${formatTokenCount(turn.received)} received`);
+
+  const parts = [`📊 ${tokens.join(", ")}`];
+  if (session.cost > 0) {
+    parts.push(`${formatCost(turn.cost)} (session ${formatCost(session.cost)})`);
+  }
+  return parts.join(" · ");
+}